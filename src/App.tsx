@@ -1,9 +1,12 @@
+import { useQueryClient } from '@tanstack/react-query'
 import { RouterProvider } from '@tanstack/react-router'
 import { router } from './router'
 import './App.css'
 
 function App() {
-  return <RouterProvider router={router} />
+  const queryClient = useQueryClient()
+
+  return <RouterProvider router={router} context={{ queryClient }} />
 }
 
 export default App
@@ -0,0 +1,226 @@
+import { describe, expect, it } from 'vitest'
+import {
+  accruedInterest,
+  analyzeBond,
+  dayCounts,
+  fitNelsonSiegel,
+  NELSON_SIEGEL_MIN_POINTS,
+  nelsonSiegelYield,
+  priceFromYield,
+  yearFraction,
+  yieldFromPrice,
+  type BondTerms,
+  type DayCount,
+  type NelsonSiegel,
+} from './bondAnalytics'
+
+const settlement = '2026-01-15'
+
+const semiannual = (
+  coupon: number,
+  maturity: string,
+  dayCount: DayCount = '30/360',
+): BondTerms => ({ coupon, maturity, frequency: 2, dayCount })
+
+// 6% semiannual, ten years to maturity, settling on a coupon date.
+const tenYear = semiannual(6, '2036-01-15')
+
+describe('priceFromYield', () => {
+  it('matches textbook prices on a coupon date', () => {
+    expect(priceFromYield(tenYear, settlement, 8).cleanPrice).toBeCloseTo(86.4097, 4)
+    expect(priceFromYield(semiannual(9, '2046-01-15'), settlement, 6).cleanPrice).toBeCloseTo(
+      134.6722,
+      4,
+    )
+  })
+
+  it('prices at par when the yield equals the coupon', () => {
+    expect(priceFromYield(tenYear, settlement, 6).cleanPrice).toBeCloseTo(100, 8)
+  })
+
+  it('splits the dirty price into clean price and accrued interest', () => {
+    const price = priceFromYield(tenYear, '2026-04-15', 7)
+    expect(price.accruedInterest).toBeCloseTo(1.5, 10)
+    expect(price.dirtyPrice - price.cleanPrice).toBeCloseTo(price.accruedInterest, 10)
+  })
+})
+
+describe('yieldFromPrice', () => {
+  it.each([
+    ['a discount bond', tenYear, settlement, 2.5],
+    ['a premium bond', tenYear, settlement, 11],
+    ['mid-period settlement', tenYear, '2026-04-15', 7.25],
+    [
+      'an annual ACT/ACT bond',
+      { ...tenYear, frequency: 1, dayCount: 'ACT/ACT' },
+      '2026-05-20',
+      3.1,
+    ],
+    ['a zero-coupon bond', semiannual(0, '2046-01-15'), settlement, 4.4],
+  ] as const)('round-trips through priceFromYield for %s', (_, terms, settle, yieldPercent) => {
+    const { cleanPrice } = priceFromYield(terms, settle, yieldPercent)
+    expect(yieldFromPrice(terms, settle, cleanPrice)).toBeCloseTo(yieldPercent, 8)
+  })
+
+  it('returns NaN once no cash flows remain', () => {
+    expect(yieldFromPrice(tenYear, '2036-01-15', 100)).toBeNaN()
+  })
+
+  it('returns NaN for a non-positive price', () => {
+    expect(yieldFromPrice(tenYear, settlement, 0)).toBeNaN()
+  })
+
+  // Newton's method overshoots on these, so the bisection fallback has to
+  // bracket yields far above the usual range.
+  it.each([
+    ['a month from maturity', semiannual(0, '2026-02-15'), 2],
+    ['a coupon bond a month from maturity', semiannual(6, '2026-02-15'), 0.5],
+  ] as const)('reprices deep-discount bonds %s', (_, terms, cleanPrice) => {
+    const yieldPercent = yieldFromPrice(terms, settlement, cleanPrice)
+    expect(Number.isFinite(yieldPercent)).toBe(true)
+    expect(priceFromYield(terms, settlement, yieldPercent).cleanPrice).toBeCloseTo(cleanPrice, 6)
+  })
+
+  it('falls back to bisection for prices implying negative yields', () => {
+    const terms = semiannual(0, '2026-02-15')
+    const yieldPercent = yieldFromPrice(terms, settlement, 120)
+    expect(yieldPercent).toBeLessThan(0)
+    expect(priceFromYield(terms, settlement, yieldPercent).cleanPrice).toBeCloseTo(120, 6)
+  })
+})
+
+describe('analyzeBond', () => {
+  const cleanPrice = priceFromYield(tenYear, settlement, 8).cleanPrice
+  const analytics = analyzeBond(tenYear, settlement, cleanPrice)
+  const dirtyAt = (yieldPercent: number) =>
+    priceFromYield(tenYear, settlement, yieldPercent).dirtyPrice
+
+  it('recovers the yield to maturity', () => {
+    expect(analytics.yieldToMaturity).toBeCloseTo(8, 8)
+    expect(analytics.yieldToCall).toBeNull()
+  })
+
+  it('matches the textbook Macaulay and modified durations', () => {
+    expect(analytics.macaulayDuration).toBeCloseTo(7.4543, 4)
+    expect(analytics.modifiedDuration).toBeCloseTo(7.4543 / 1.04, 4)
+  })
+
+  it('has a modified duration equal to the relative price slope', () => {
+    const slope = (dirtyAt(7.99) - dirtyAt(8.01)) / 0.0002
+    expect(analytics.modifiedDuration).toBeCloseTo(slope / analytics.dirtyPrice, 4)
+  })
+
+  it('has a convexity equal to the relative price curvature', () => {
+    expect(analytics.convexity).toBeCloseTo(65.044, 3)
+    const curvature = (dirtyAt(7.99) + dirtyAt(8.01) - 2 * analytics.dirtyPrice) / 0.0001 ** 2
+    expect(analytics.convexity).toBeCloseTo(curvature / analytics.dirtyPrice, 2)
+  })
+
+  it('reports DV01 as the price change for one basis point', () => {
+    expect(analytics.dv01).toBeCloseTo((dirtyAt(7.99) - dirtyAt(8.01)) / 2, 6)
+  })
+
+  describe('yieldToCall', () => {
+    it('equals the coupon for a par bond', () => {
+      expect(analyzeBond(tenYear, settlement, 100, '2031-01-15').yieldToCall).toBeCloseTo(6, 8)
+    })
+
+    it('reprices the bond to par at the call date', () => {
+      const premium = analyzeBond(tenYear, settlement, 104, '2028-01-15')
+      const toCall = { ...tenYear, maturity: '2028-01-15' }
+
+      expect(premium.yieldToCall).not.toBeNull()
+      expect(premium.yieldToCall!).toBeLessThan(premium.yieldToMaturity)
+      expect(priceFromYield(toCall, settlement, premium.yieldToCall!).cleanPrice).toBeCloseTo(
+        104,
+        8,
+      )
+    })
+
+    it('is null once the call date has passed', () => {
+      expect(analyzeBond(tenYear, settlement, 104, '2025-07-15').yieldToCall).toBeNull()
+    })
+  })
+})
+
+describe('accruedInterest', () => {
+  // 15 Jan to 15 Apr: 90 actual days, 90 days on a 30/360 basis, in a
+  // 181-day coupon period.
+  it.each([
+    ['30/360', 1.25],
+    ['ACT/360', 1.25],
+    ['ACT/365', (2.5 * 90 * 2) / 365],
+    ['ACT/ACT', (2.5 * 90) / 181],
+  ] as const)('accrues %s interest', (dayCount, expected) => {
+    expect(accruedInterest(semiannual(5, '2036-01-15', dayCount), '2026-04-15')).toBeCloseTo(
+      expected,
+      10,
+    )
+  })
+
+  it('is zero on a coupon date', () => {
+    for (const dayCount of dayCounts) {
+      expect(accruedInterest(semiannual(5, '2036-01-15', dayCount), settlement)).toBe(0)
+    }
+  })
+
+  it('treats the last day of February as the 30th under 30/360', () => {
+    // Coupons on 31 Aug and 28 Feb; 28 Feb to 31 Mar counts as 30 days.
+    const terms = semiannual(5, '2036-08-31')
+    expect(accruedInterest(terms, '2026-03-31')).toBeCloseTo((2.5 * 30) / 180, 10)
+    expect(accruedInterest(terms, '2026-03-15')).toBeCloseTo((2.5 * 15) / 180, 10)
+  })
+
+  it('counts a full year between month-end Februaries under 30/360', () => {
+    expect(yearFraction('2027-02-28', '2028-02-29', '30/360')).toBe(1)
+    expect(yearFraction('2028-02-29', '2029-02-28', '30/360')).toBe(1)
+  })
+})
+
+describe('fitNelsonSiegel', () => {
+  const upwardSloping: NelsonSiegel = { beta0: 5, beta1: -2, beta2: 1, tau: 2 }
+  const maturities = [0.5, 1, 2, 3, 5, 7, 10, 20, 30]
+  const onCurve = maturities.map((maturity) => ({
+    maturity,
+    yield: nelsonSiegelYield(upwardSloping, maturity),
+  }))
+
+  // The ridge trades a little bias at the short end for stable loadings.
+  it('stays within 15bp of a curve that is exactly Nelson-Siegel', () => {
+    const curve = fitNelsonSiegel(onCurve)!
+    for (const point of onCurve) {
+      expect(Math.abs(nelsonSiegelYield(curve, point.maturity) - point.yield)).toBeLessThan(0.15)
+    }
+  })
+
+  it('keeps the decay within six months and five years', () => {
+    const { tau } = fitNelsonSiegel(onCurve)!
+    expect(tau).toBeGreaterThanOrEqual(0.5)
+    expect(tau).toBeLessThanOrEqual(5)
+  })
+
+  it(`needs at least ${NELSON_SIEGEL_MIN_POINTS} points`, () => {
+    expect(fitNelsonSiegel(onCurve.slice(0, NELSON_SIEGEL_MIN_POINTS - 1))).toBeNull()
+    expect(fitNelsonSiegel(onCurve.slice(0, NELSON_SIEGEL_MIN_POINTS))).not.toBeNull()
+  })
+
+  it('keeps loadings tame on a small noisy group', () => {
+    const noisy = [
+      { maturity: 2.7, yield: 3.02 },
+      { maturity: 4, yield: 3.74 },
+      { maturity: 8.4, yield: 5.05 },
+      { maturity: 11.5, yield: 5.12 },
+      { maturity: 18.5, yield: 4.52 },
+    ]
+    const curve = fitNelsonSiegel(noisy)!
+    expect(curve.beta0).toBeGreaterThan(0)
+    expect(curve.beta0 + curve.beta1).toBeGreaterThan(0)
+    expect(Math.abs(curve.beta1)).toBeLessThan(10)
+    expect(Math.abs(curve.beta2)).toBeLessThan(10)
+  })
+
+  it('falls back to a flat curve when every fit implies negative yields', () => {
+    const negative = maturities.map((maturity) => ({ maturity, yield: -0.5 }))
+    expect(fitNelsonSiegel(negative)).toEqual({ beta0: -0.5, beta1: 0, beta2: 0, tau: 1 })
+  })
+})
@@ -0,0 +1,400 @@
+// Fixed-income analytics for plain-vanilla fixed-coupon bonds. Prices are
+// quoted per 100 of face value and yields and coupons in percent, matching the
+// bond feed. Cash flows are discounted with the usual street convention:
+// periodic compounding at the coupon frequency, with the first period shortened
+// by the fraction of the current coupon period that has already accrued.
+
+export type DayCount = '30/360' | 'ACT/360' | 'ACT/365' | 'ACT/ACT'
+
+export type CouponFrequency = 1 | 2 | 4 | 12
+
+export type BondTerms = {
+  coupon: number
+  maturity: string
+  frequency: CouponFrequency
+  dayCount: DayCount
+  redemption?: number
+}
+
+export type CashFlow = {
+  date: string
+  coupon: number
+  principal: number
+  // Time from settlement in years, measured in coupon periods / frequency.
+  time: number
+}
+
+export type BondAnalytics = {
+  cleanPrice: number
+  dirtyPrice: number
+  accruedInterest: number
+  yieldToMaturity: number
+  yieldToCall: number | null
+  macaulayDuration: number
+  modifiedDuration: number
+  convexity: number
+  dv01: number
+}
+
+export const dayCounts: DayCount[] = ['30/360', 'ACT/360', 'ACT/365', 'ACT/ACT']
+
+// The bond feed carries no coupon schedule, so dollar bonds are treated as
+// semiannual 30/360 and euro bonds as annual ACT/ACT, the usual market
+// conventions for each.
+export const marketConvention = (
+  currency: 'USD' | 'EUR',
+): Pick<BondTerms, 'frequency' | 'dayCount'> =>
+  currency === 'EUR' ? { frequency: 1, dayCount: 'ACT/ACT' } : { frequency: 2, dayCount: '30/360' }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10)
+
+const actualDays = (start: Date, end: Date) =>
+  Math.round((end.getTime() - start.getTime()) / DAY_MS)
+
+const isLastDayOfMonth = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate() ===
+  date.getUTCDate()
+
+// Steps back from an anchor date in whole months, clamping to month end so a
+// 31 August maturity pays on 28/29 February rather than rolling into March.
+const addMonths = (date: Date, months: number) => {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1))
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0),
+  ).getUTCDate()
+  const day = isLastDayOfMonth(date) ? lastDay : Math.min(date.getUTCDate(), lastDay)
+  return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), day))
+}
+
+// 30/360 US (bond basis), including the end-of-February adjustments.
+const days30360 = (start: Date, end: Date) => {
+  let d1 = start.getUTCDate()
+  let d2 = end.getUTCDate()
+  const february = (date: Date) => date.getUTCMonth() === 1 && isLastDayOfMonth(date)
+
+  if (february(start) && february(end)) d2 = 30
+  if (february(start)) d1 = 30
+  if (d2 === 31 && d1 >= 30) d2 = 30
+  if (d1 === 31) d1 = 30
+
+  return (
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 360 +
+    (end.getUTCMonth() - start.getUTCMonth()) * 30 +
+    (d2 - d1)
+  )
+}
+
+/**
+ * Fraction of a year between two dates. ACT/ACT here is the calendar-year
+ * (ISDA) split; accrual inside a coupon period uses the ICMA rule instead,
+ * see `accrualFraction`.
+ */
+export const yearFraction = (start: string, end: string, dayCount: DayCount) => {
+  const from = toDate(start)
+  const to = toDate(end)
+
+  switch (dayCount) {
+    case '30/360':
+      return days30360(from, to) / 360
+    case 'ACT/360':
+      return actualDays(from, to) / 360
+    case 'ACT/365':
+      return actualDays(from, to) / 365
+    case 'ACT/ACT': {
+      // ISDA split across calendar years when no coupon period is known.
+      let total = 0
+      let cursor = from
+      while (cursor < to) {
+        const year = cursor.getUTCFullYear()
+        const yearEnd = new Date(Date.UTC(year + 1, 0, 1))
+        const stop = yearEnd < to ? yearEnd : to
+        const daysInYear = actualDays(new Date(Date.UTC(year, 0, 1)), yearEnd)
+        total += actualDays(cursor, stop) / daysInYear
+        cursor = stop
+      }
+      return total
+    }
+  }
+}
+
+/**
+ * Coupon dates strictly after settlement, plus the coupon date on or before
+ * it. Dates are generated backwards from maturity so odd first periods land
+ * at the front of the schedule, where the accrual handles them.
+ */
+export const couponSchedule = (terms: BondTerms, settlement: string) => {
+  const settle = toDate(settlement)
+  const maturity = toDate(terms.maturity)
+  const step = 12 / terms.frequency
+  const upcoming: Date[] = []
+
+  let periods = 0
+  let date = maturity
+  while (date > settle) {
+    upcoming.unshift(date)
+    periods += 1
+    date = addMonths(maturity, -step * periods)
+  }
+
+  return {
+    previous: toIsoDate(date),
+    upcoming: upcoming.map(toIsoDate),
+  }
+}
+
+/** Share of the current coupon period that has accrued at settlement. */
+export const accrualFraction = (terms: BondTerms, settlement: string) => {
+  const { previous, upcoming } = couponSchedule(terms, settlement)
+  const next = upcoming[0]
+  if (!next) return 0
+
+  if (terms.dayCount === 'ACT/ACT') {
+    return (
+      actualDays(toDate(previous), toDate(settlement)) /
+      actualDays(toDate(previous), toDate(next))
+    )
+  }
+
+  return yearFraction(previous, settlement, terms.dayCount) * terms.frequency
+}
+
+export const accruedInterest = (terms: BondTerms, settlement: string) =>
+  (terms.coupon / terms.frequency) * accrualFraction(terms, settlement)
+
+export const cashFlows = (terms: BondTerms, settlement: string): CashFlow[] => {
+  const { upcoming } = couponSchedule(terms, settlement)
+  const offset = 1 - accrualFraction(terms, settlement)
+  const coupon = terms.coupon / terms.frequency
+
+  return upcoming.map((date, index) => ({
+    date,
+    coupon,
+    principal: index === upcoming.length - 1 ? (terms.redemption ?? 100) : 0,
+    time: (index + offset) / terms.frequency,
+  }))
+}
+
+const presentValues = (flows: CashFlow[], yieldPercent: number, frequency: number) => {
+  const rate = yieldPercent / 100 / frequency
+  return flows.map((flow) => (flow.coupon + flow.principal) / (1 + rate) ** (flow.time * frequency))
+}
+
+/** Prices per 100 face for a yield in percent. */
+export const priceFromYield = (terms: BondTerms, settlement: string, yieldPercent: number) => {
+  const flows = cashFlows(terms, settlement)
+  const dirtyPrice = presentValues(flows, yieldPercent, terms.frequency).reduce(
+    (sum, value) => sum + value,
+    0,
+  )
+  const accrued = accruedInterest(terms, settlement)
+
+  return { cleanPrice: dirtyPrice - accrued, dirtyPrice, accruedInterest: accrued }
+}
+
+/**
+ * Solves for the yield (percent) that reprices the bond to `cleanPrice`.
+ * Newton's method converges in a handful of steps for sensible inputs; a
+ * bisection fallback covers deep-discount and near-maturity cases where it
+ * can overshoot. Returns NaN when no cash flows remain.
+ */
+export const yieldFromPrice = (terms: BondTerms, settlement: string, cleanPrice: number) => {
+  const flows = cashFlows(terms, settlement)
+  if (!flows.length || !(cleanPrice > 0)) return Number.NaN
+
+  const target = cleanPrice + accruedInterest(terms, settlement)
+  const priceAt = (yieldPercent: number) =>
+    presentValues(flows, yieldPercent, terms.frequency).reduce((sum, value) => sum + value, 0)
+
+  let guess = terms.coupon || 5
+  for (let iteration = 0; iteration < 50; iteration += 1) {
+    const error = priceAt(guess) - target
+    if (Math.abs(error) < 1e-10) return guess
+
+    const slope = (priceAt(guess + 1e-4) - priceAt(guess - 1e-4)) / 2e-4
+    const next = guess - error / slope
+    if (!Number.isFinite(next) || next <= -100 * terms.frequency) break
+    guess = next
+  }
+
+  // Deep discounts close to maturity can imply yields in the thousands of
+  // percent, so the upper bracket grows until it prices below the target.
+  let low = -99 * terms.frequency
+  let high = 1000
+  while (priceAt(high) > target && high < 1e15) high *= 10
+  for (let iteration = 0; iteration < 200; iteration += 1) {
+    const middle = (low + high) / 2
+    if (priceAt(middle) > target) low = middle
+    else high = middle
+  }
+  return (low + high) / 2
+}
+
+/**
+ * Full analytics at a given clean price. Durations are in years, convexity in
+ * years squared, and DV01 is the price change per 100 face for a one basis
+ * point move in yield. Yield to call treats `nextCall` as the redemption date
+ * at par.
+ */
+export const analyzeBond = (
+  terms: BondTerms,
+  settlement: string,
+  cleanPrice: number,
+  nextCall?: string | null,
+): BondAnalytics => {
+  const yieldToMaturity = yieldFromPrice(terms, settlement, cleanPrice)
+  const flows = cashFlows(terms, settlement)
+  const values = presentValues(flows, yieldToMaturity, terms.frequency)
+  const dirtyPrice = values.reduce((sum, value) => sum + value, 0)
+  const periodRate = yieldToMaturity / 100 / terms.frequency
+
+  const macaulayDuration =
+    values.reduce((sum, value, index) => sum + value * flows[index].time, 0) / dirtyPrice
+  const modifiedDuration = macaulayDuration / (1 + periodRate)
+  const convexity =
+    values.reduce(
+      (sum, value, index) =>
+        sum + value * flows[index].time * (flows[index].time + 1 / terms.frequency),
+      0,
+    ) /
+    (dirtyPrice * (1 + periodRate) ** 2)
+
+  const callable = nextCall && toDate(nextCall) > toDate(settlement)
+
+  return {
+    cleanPrice,
+    dirtyPrice,
+    accruedInterest: accruedInterest(terms, settlement),
+    yieldToMaturity,
+    yieldToCall: callable
+      ? yieldFromPrice({ ...terms, maturity: nextCall, redemption: 100 }, settlement, cleanPrice)
+      : null,
+    macaulayDuration,
+    modifiedDuration,
+    convexity,
+    dv01: (modifiedDuration * dirtyPrice) / 10000,
+  }
+}
+
+/**
+ * Second-order estimate of the price change for a yield shift in basis
+ * points, as a percentage of the dirty price.
+ */
+export const estimatePriceChange = (analytics: BondAnalytics, shiftBps: number) => {
+  const shift = shiftBps / 10000
+  return (
+    (-analytics.modifiedDuration * shift + 0.5 * analytics.convexity * shift ** 2) * 100
+  )
+}
+
+export type NelsonSiegel = {
+  beta0: number
+  beta1: number
+  beta2: number
+  tau: number
+}
+
+export type CurvePoint = { maturity: number; yield: number }
+
+const nelsonSiegelLoadings = (maturity: number, tau: number) => {
+  const x = Math.max(maturity, 1e-6) / tau
+  const slope = (1 - Math.exp(-x)) / x
+  return [1, slope, slope - Math.exp(-x)]
+}
+
+export const nelsonSiegelYield = (curve: NelsonSiegel, maturity: number) => {
+  const [level, slope, hump] = nelsonSiegelLoadings(maturity, curve.tau)
+  return curve.beta0 * level + curve.beta1 * slope + curve.beta2 * hump
+}
+
+// Solves a 3x3 system by Gaussian elimination with partial pivoting.
+const solve3 = (matrix: number[][], vector: number[]) => {
+  const rows = matrix.map((row, index) => [...row, vector[index]])
+
+  for (let column = 0; column < 3; column += 1) {
+    let pivot = column
+    for (let row = column + 1; row < 3; row += 1) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row
+    }
+    const swap = rows[column]
+    rows[column] = rows[pivot]
+    rows[pivot] = swap
+    if (Math.abs(rows[column][column]) < 1e-12) return null
+
+    for (let row = column + 1; row < 3; row += 1) {
+      const factor = rows[row][column] / rows[column][column]
+      for (let k = column; k < 4; k += 1) rows[row][k] -= factor * rows[column][k]
+    }
+  }
+
+  const result = [0, 0, 0]
+  for (let row = 2; row >= 0; row -= 1) {
+    const known = result.reduce((sum, value, k) => (k > row ? sum + rows[row][k] * value : sum), 0)
+    result[row] = (rows[row][3] - known) / rows[row][row]
+  }
+  return result
+}
+
+// Groups smaller than this leave too few degrees of freedom for three
+// loadings and a decay, so they are reported as unfitted.
+export const NELSON_SIEGEL_MIN_POINTS = 5
+
+// Ridge weight per point on the slope and hump loadings. It shrinks noisy
+// groups towards a flat curve without biasing the level.
+const NELSON_SIEGEL_RIDGE = 0.01
+
+/**
+ * Penalised least-squares Nelson-Siegel fit. For a fixed decay `tau` the model
+ * is linear in the betas, so each candidate tau between six months and five
+ * years gets a ridge-regularised solve, and the tau with the smallest squared
+ * error wins. Fits implying a non-positive long-run (beta0) or instantaneous
+ * (beta0 + beta1) yield are rejected; if every candidate is rejected the
+ * curve falls back to a flat line at the mean yield. Returns null for groups
+ * under `NELSON_SIEGEL_MIN_POINTS`.
+ */
+export const fitNelsonSiegel = (points: CurvePoint[]): NelsonSiegel | null => {
+  if (points.length < NELSON_SIEGEL_MIN_POINTS) return null
+
+  const ridge = NELSON_SIEGEL_RIDGE * points.length
+  let best: { curve: NelsonSiegel; error: number } | null = null
+
+  for (let tau = 0.5; tau <= 5; tau += 0.25) {
+    const normal = [
+      [0, 0, 0],
+      [0, ridge, 0],
+      [0, 0, ridge],
+    ]
+    const target = [0, 0, 0]
+
+    for (const point of points) {
+      const loadings = nelsonSiegelLoadings(point.maturity, tau)
+      for (let i = 0; i < 3; i += 1) {
+        target[i] += loadings[i] * point.yield
+        for (let j = 0; j < 3; j += 1) normal[i][j] += loadings[i] * loadings[j]
+      }
+    }
+
+    const betas = solve3(normal, target)
+    if (!betas) continue
+
+    const curve = { beta0: betas[0], beta1: betas[1], beta2: betas[2], tau }
+    if (!(curve.beta0 > 0 && curve.beta0 + curve.beta1 > 0)) continue
+
+    const error = points.reduce(
+      (sum, point) => sum + (point.yield - nelsonSiegelYield(curve, point.maturity)) ** 2,
+      0,
+    )
+    if (!best || error < best.error) best = { curve, error }
+  }
+
+  if (best) return best.curve
+
+  const mean = points.reduce((sum, point) => sum + point.yield, 0) / points.length
+  return { beta0: mean, beta1: 0, beta2: 0, tau: 1 }
+}
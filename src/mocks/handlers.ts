@@ -1,4 +1,5 @@
-import { delay, http, HttpResponse } from 'msw'
+import { delay, http, HttpResponse, sse } from 'msw'
+import { couponSchedule, marketConvention } from '../bondAnalytics'
 
 type Stock = {
   id: string
@@ -30,6 +31,45 @@ type Bond = {
   lastTraded: string
 }
 
+type Filters = {
+  search: string
+  sector: string[]
+  rating: Stock['rating'][]
+  change: 'any' | 'positive' | 'negative'
+  minPrice: string
+  maxPrice: string
+  minCap: string
+  maxCap: string
+  watchlist: string
+}
+
+type SavedScreen = {
+  id: string
+  name: string
+  filters: Filters
+  createdAt: string
+  updatedAt: string
+}
+
+type Watchlist = {
+  id: string
+  name: string
+  tickers: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+type TableLayout = {
+  columnVisibility: Record<string, boolean>
+  columnOrder: string[]
+  columnSizing: Record<string, number>
+}
+
+type Preferences = {
+  stocksTable: TableLayout | null
+  updatedAt: string | null
+}
+
 const stocks: Stock[] = [
   {
     id: 'stk-001',
@@ -537,36 +577,948 @@ const bonds: Bond[] = [
     size: 960000000,
     lastTraded: '2026-02-11T13:55:00Z',
   },
+  {
+    id: 'bond-006',
+    name: 'Cascade Water 2034',
+    issuer: 'Cascade Regional Water District',
+    rating: 'AAA',
+    coupon: 3.25,
+    maturity: '2034-06-01',
+    yieldToMaturity: 3.62,
+    duration: 7.1,
+    price: 97.36,
+    currency: 'USD',
+    nextCall: '2030-06-01',
+    sector: 'Municipal',
+    size: 350000000,
+    lastTraded: '2026-02-11T09:12:00Z',
+  },
+  {
+    id: 'bond-007',
+    name: 'Northwind Energy 2033',
+    issuer: 'Northwind Energy Partners',
+    rating: 'BBB',
+    coupon: 5.6,
+    maturity: '2033-02-15',
+    yieldToMaturity: 5.91,
+    duration: 5.6,
+    price: 98.24,
+    currency: 'USD',
+    nextCall: null,
+    sector: 'Energy',
+    size: 1100000000,
+    lastTraded: '2026-02-11T09:47:00Z',
+  },
+  {
+    id: 'bond-008',
+    name: 'Helix Pharma 2030',
+    issuer: 'Helix Pharmaceuticals',
+    rating: 'A',
+    coupon: 3.9,
+    maturity: '2030-10-01',
+    yieldToMaturity: 3.74,
+    duration: 4.2,
+    price: 100.67,
+    currency: 'EUR',
+    nextCall: null,
+    sector: 'Healthcare',
+    size: 750000000,
+    lastTraded: '2026-02-11T10:05:00Z',
+  },
+  {
+    id: 'bond-009',
+    name: 'Meridian Rail 2045',
+    issuer: 'Meridian Rail Holdings',
+    rating: 'A',
+    coupon: 4.1,
+    maturity: '2045-04-15',
+    yieldToMaturity: 4.52,
+    duration: 12.8,
+    price: 94.65,
+    currency: 'EUR',
+    nextCall: '2040-04-15',
+    sector: 'Industrials',
+    size: 1250000000,
+    lastTraded: '2026-02-11T10:31:00Z',
+  },
+  {
+    id: 'bond-010',
+    name: 'Summit Bancorp 2028',
+    issuer: 'Summit Bancorp',
+    rating: 'AA',
+    coupon: 4.6,
+    maturity: '2028-08-01',
+    yieldToMaturity: 4.41,
+    duration: 2.3,
+    price: 100.44,
+    currency: 'USD',
+    nextCall: null,
+    sector: 'Financials',
+    size: 900000000,
+    lastTraded: '2026-02-11T10:58:00Z',
+  },
+  {
+    id: 'bond-011',
+    name: 'Orchid Hotels 2031',
+    issuer: 'Orchid Hospitality Group',
+    rating: 'BB',
+    coupon: 7.25,
+    maturity: '2031-12-01',
+    yieldToMaturity: 7.02,
+    duration: 4.6,
+    price: 101.07,
+    currency: 'USD',
+    nextCall: '2028-12-01',
+    sector: 'Consumer',
+    size: 400000000,
+    lastTraded: '2026-02-11T11:20:00Z',
+  },
+  {
+    id: 'bond-012',
+    name: 'Riverbend Schools 2042',
+    issuer: 'Riverbend Unified School District',
+    rating: 'AA',
+    coupon: 4,
+    maturity: '2042-08-01',
+    yieldToMaturity: 4.27,
+    duration: 11.9,
+    price: 96.83,
+    currency: 'USD',
+    nextCall: '2032-08-01',
+    sector: 'Municipal',
+    size: 280000000,
+    lastTraded: '2026-02-11T11:42:00Z',
+  },
+  {
+    id: 'bond-013',
+    name: 'Vantage Telecom 2035',
+    issuer: 'Vantage Telecom',
+    rating: 'BBB',
+    coupon: 4.75,
+    maturity: '2035-03-15',
+    yieldToMaturity: 5.05,
+    duration: 7.1,
+    price: 97.83,
+    currency: 'EUR',
+    nextCall: null,
+    sector: 'Communications',
+    size: 1400000000,
+    lastTraded: '2026-02-11T12:03:00Z',
+  },
+  {
+    id: 'bond-014',
+    name: 'Solace Power 2048',
+    issuer: 'Solace Power & Light',
+    rating: 'A',
+    coupon: 5,
+    maturity: '2048-01-15',
+    yieldToMaturity: 5.21,
+    duration: 13,
+    price: 97.27,
+    currency: 'USD',
+    nextCall: '2043-01-15',
+    sector: 'Utilities',
+    size: 850000000,
+    lastTraded: '2026-02-11T12:26:00Z',
+  },
+  {
+    id: 'bond-015',
+    name: 'Keystone Logistics 2030',
+    issuer: 'Keystone Logistics',
+    rating: 'BB',
+    coupon: 6.8,
+    maturity: '2030-05-15',
+    yieldToMaturity: 7.36,
+    duration: 3.6,
+    price: 97.97,
+    currency: 'USD',
+    nextCall: null,
+    sector: 'Industrials',
+    size: 325000000,
+    lastTraded: '2026-02-11T12:51:00Z',
+  },
+  {
+    id: 'bond-016',
+    name: 'Elmstead Health 2044',
+    issuer: 'Elmstead Health System',
+    rating: 'A',
+    coupon: 4.6,
+    maturity: '2044-10-01',
+    yieldToMaturity: 4.93,
+    duration: 12.1,
+    price: 96,
+    currency: 'USD',
+    nextCall: '2034-10-01',
+    sector: 'Healthcare',
+    size: 600000000,
+    lastTraded: '2026-02-11T13:07:00Z',
+  },
+  {
+    id: 'bond-017',
+    name: 'Harbor Capital 2029',
+    issuer: 'Harbor Capital Finance',
+    rating: 'AA',
+    coupon: 3.1,
+    maturity: '2029-06-30',
+    yieldToMaturity: 3.02,
+    duration: 3.2,
+    price: 100.25,
+    currency: 'EUR',
+    nextCall: null,
+    sector: 'Financials',
+    size: 1000000000,
+    lastTraded: '2026-02-11T13:22:00Z',
+  },
+  {
+    id: 'bond-018',
+    name: 'Granite Homes 2032',
+    issuer: 'Granite Homebuilders',
+    rating: 'BB',
+    coupon: 6.5,
+    maturity: '2032-09-01',
+    yieldToMaturity: 6.88,
+    duration: 5.1,
+    price: 98.02,
+    currency: 'USD',
+    nextCall: '2029-09-01',
+    sector: 'Consumer',
+    size: 450000000,
+    lastTraded: '2026-02-11T13:36:00Z',
+  },
+  {
+    id: 'bond-019',
+    name: 'Polaris Gas 2037',
+    issuer: 'Polaris Gas Transmission',
+    rating: 'BBB',
+    coupon: 5.35,
+    maturity: '2037-07-01',
+    yieldToMaturity: 5.58,
+    duration: 8.4,
+    price: 98.07,
+    currency: 'USD',
+    nextCall: '2032-07-01',
+    sector: 'Energy',
+    size: 700000000,
+    lastTraded: '2026-02-11T14:02:00Z',
+  },
+  {
+    id: 'bond-020',
+    name: 'Civic Housing 2050',
+    issuer: 'Civic Housing Finance Agency',
+    rating: 'AAA',
+    coupon: 3.5,
+    maturity: '2050-03-01',
+    yieldToMaturity: 4.02,
+    duration: 15.5,
+    price: 92.03,
+    currency: 'USD',
+    nextCall: '2035-03-01',
+    sector: 'Municipal',
+    size: 520000000,
+    lastTraded: '2026-02-11T14:15:00Z',
+  },
+]
+
+const screenFilters: Filters = {
+  search: '',
+  sector: [],
+  rating: [],
+  change: 'any',
+  minPrice: '',
+  maxPrice: '',
+  minCap: '',
+  maxCap: '',
+  watchlist: 'All',
+}
+
+let screens: SavedScreen[] = [
+  {
+    id: 'scr-001',
+    name: 'Large-cap tech buys',
+    filters: {
+      ...screenFilters,
+      sector: ['Technology'],
+      rating: ['Buy'],
+      minCap: '100000000000',
+    },
+    createdAt: '2026-02-09T08:30:00Z',
+    updatedAt: '2026-02-09T08:30:00Z',
+  },
+  {
+    id: 'scr-002',
+    name: 'Energy decliners',
+    filters: { ...screenFilters, sector: ['Energy'], change: 'negative' },
+    createdAt: '2026-02-10T08:15:00Z',
+    updatedAt: '2026-02-10T08:15:00Z',
+  },
 ]
 
+let screenSequence = screens.length
+
+let preferences: Preferences = { stocksTable: null, updatedAt: null }
+
+const isRecordOf = (value: unknown, type: 'boolean' | 'number') =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((item) => typeof item === type)
+
+const isTableLayout = (value: unknown): value is TableLayout => {
+  if (typeof value !== 'object' || value === null) return false
+  const layout = value as Partial<TableLayout>
+  return (
+    isRecordOf(layout.columnVisibility, 'boolean') &&
+    Array.isArray(layout.columnOrder) &&
+    layout.columnOrder.every((id) => typeof id === 'string') &&
+    isRecordOf(layout.columnSizing, 'number')
+  )
+}
+
+let watchlists: Watchlist[] = [
+  {
+    id: 'wl-001',
+    name: 'Morning movers',
+    tickers: ['FLXR', 'LUMA', 'NOVA', 'IONA'],
+    createdAt: '2026-02-09T08:00:00Z',
+    updatedAt: '2026-02-09T08:00:00Z',
+  },
+  {
+    id: 'wl-002',
+    name: 'Defensive income',
+    tickers: ['GNRD', 'SOLR', 'DLWN', 'TRMN'],
+    createdAt: '2026-02-10T07:45:00Z',
+    updatedAt: '2026-02-10T07:45:00Z',
+  },
+]
+
+let watchlistSequence = watchlists.length
+
+const saveWatchlist = (updated: Watchlist) => {
+  watchlists = watchlists.map((item) => (item.id === updated.id ? updated : item))
+  return updated
+}
+
+type PriceTick = Pick<
+  Stock,
+  'ticker' | 'price' | 'changePercent' | 'volume' | 'lastUpdated'
+>
+
+// Previous closes are backed out of the fixture's change so the random walk
+// keeps `changePercent` consistent with `price` as ticks accumulate.
+const previousCloses = new Map(
+  stocks.map((stock) => [stock.ticker, stock.price / (1 + stock.changePercent / 100)]),
+)
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits))
+
+type HistoryRange = '1D' | '1M' | '1Y'
+
+type PriceBar = {
+  time: string
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+// History is generated from the fixture values rather than the live walk so
+// the same ticker and range always produce the same series.
+const fixturePrices = new Map(stocks.map((stock) => [stock.ticker, stock.price]))
+const fixtureVolumes = new Map(stocks.map((stock) => [stock.ticker, stock.volume]))
+const historyEnd = Date.parse('2026-02-11T21:00:00Z')
+
+const historyShapes: Record<HistoryRange, { bars: number; stepMs: number; volatility: number }> = {
+  '1D': { bars: 78, stepMs: 5 * 60 * 1000, volatility: 0.0025 },
+  '1M': { bars: 30, stepMs: 24 * 60 * 60 * 1000, volatility: 0.014 },
+  '1Y': { bars: 52, stepMs: 7 * 24 * 60 * 60 * 1000, volatility: 0.032 },
+}
+
+const seededRandom = (seedText: string) => {
+  let seed = 0
+  for (const char of seedText) {
+    seed = (Math.imul(seed, 31) + char.charCodeAt(0)) | 0
+  }
+
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = seed
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const buildHistory = (stock: Stock, range: HistoryRange): PriceBar[] => {
+  const { bars, stepMs, volatility } = historyShapes[range]
+  const random = seededRandom(`${stock.ticker}:${range}`)
+  const closePrice = fixturePrices.get(stock.ticker) ?? stock.price
+  const baseVolume = (fixtureVolumes.get(stock.ticker) ?? stock.volume) / (range === '1D' ? bars : 1)
+
+  const raw: Omit<PriceBar, 'time'>[] = []
+  let last = 1
+
+  for (let index = 0; index < bars; index += 1) {
+    const open = last
+    const close = open * (1 + (random() - 0.5) * 2 * volatility)
+    const high = Math.max(open, close) * (1 + random() * volatility * 0.6)
+    const low = Math.min(open, close) * (1 - random() * volatility * 0.6)
+    const volume = Math.round(baseVolume * (0.6 + random() * 0.8))
+    raw.push({ open, high, low, close, volume })
+    last = close
+  }
+
+  const scale = closePrice / last
+
+  return raw.map((bar, index) => ({
+    time: new Date(historyEnd - (bars - 1 - index) * stepMs).toISOString(),
+    open: round(bar.open * scale),
+    high: round(bar.high * scale),
+    low: round(bar.low * scale),
+    close: round(bar.close * scale),
+    volume: bar.volume,
+  }))
+}
+
+const nextTicks = (count: number): PriceTick[] => {
+  const picked = [...stocks].sort(() => Math.random() - 0.5).slice(0, count)
+  const now = new Date().toISOString()
+
+  return picked.map((stock) => {
+    const previousClose = previousCloses.get(stock.ticker) ?? stock.price
+    const step = (Math.random() - 0.5) * 0.004 * stock.price
+
+    stock.price = round(Math.max(0.01, stock.price + step))
+    stock.changePercent = round(((stock.price - previousClose) / previousClose) * 100)
+    stock.volume += Math.round(Math.random() * 5000)
+    stock.lastUpdated = now
+
+    return {
+      ticker: stock.ticker,
+      price: stock.price,
+      changePercent: stock.changePercent,
+      volume: stock.volume,
+      lastUpdated: stock.lastUpdated,
+    }
+  })
+}
+
+type AlertRule = {
+  id: string
+  ticker: string | null
+  sector: string | null
+  metric: 'price' | 'changePercent'
+  condition: 'above' | 'below'
+  threshold: number
+  status: 'pending' | 'triggered'
+  createdAt: string
+  triggeredAt: string | null
+}
+
+type AlertEvent = {
+  id: string
+  ruleId: string
+  ticker: string
+  value: number
+  message: string
+  triggeredAt: string
+  read: boolean
+}
+
+let alertRules: AlertRule[] = []
+let alertEvents: AlertEvent[] = []
+let alertSequence = 0
+let alertEventSequence = 0
+
+// Rules fire on crossings, so each rule remembers which tickers already
+// satisfied its condition the last time prices were evaluated.
+const alertMatches = new Map<string, Set<string>>()
+
+const stocksForRule = (rule: AlertRule) =>
+  stocks.filter((stock) =>
+    rule.ticker ? stock.ticker === rule.ticker : stock.sector === rule.sector,
+  )
+
+const ruleMatches = (rule: AlertRule, stock: Stock) => {
+  const value = stock[rule.metric]
+  return rule.condition === 'above' ? value >= rule.threshold : value <= rule.threshold
+}
+
+const describeAlert = (rule: AlertRule, stock: Stock) =>
+  rule.metric === 'price'
+    ? `${stock.ticker} crossed ${rule.condition} $${rule.threshold.toFixed(2)} at $${stock.price.toFixed(2)}`
+    : `${stock.ticker} ${rule.condition === 'above' ? 'rose' : 'dropped'} ${Math.abs(stock.changePercent).toFixed(2)}% today`
+
+const armAlert = (rule: AlertRule) => {
+  alertMatches.set(
+    rule.id,
+    new Set(stocksForRule(rule).filter((stock) => ruleMatches(rule, stock)).map((stock) => stock.ticker)),
+  )
+}
+
+const evaluateAlerts = () => {
+  const now = new Date().toISOString()
+
+  alertRules = alertRules.map((rule) => {
+    if (rule.status !== 'pending') return rule
+
+    const previous = alertMatches.get(rule.id) ?? new Set<string>()
+    const current = stocksForRule(rule).filter((stock) => ruleMatches(rule, stock))
+    const crossed = current.filter((stock) => !previous.has(stock.ticker))
+    alertMatches.set(rule.id, new Set(current.map((stock) => stock.ticker)))
+
+    if (crossed.length === 0) return rule
+
+    crossed.forEach((stock) => {
+      alertEventSequence += 1
+      alertEvents = [
+        {
+          id: `evt-${String(alertEventSequence).padStart(4, '0')}`,
+          ruleId: rule.id,
+          ticker: stock.ticker,
+          value: stock[rule.metric],
+          message: describeAlert(rule, stock),
+          triggeredAt: now,
+          read: false,
+        },
+        ...alertEvents,
+      ]
+    })
+
+    return { ...rule, status: 'triggered', triggeredAt: now }
+  })
+}
+
+type Holding = {
+  id: string
+  assetType: 'stock' | 'bond'
+  symbol: string
+  quantity: number
+  costBasis: number
+  tradeDate: string
+  createdAt: string
+  updatedAt: string
+}
+
+let holdings: Holding[] = [
+  {
+    id: 'pos-001',
+    assetType: 'stock',
+    symbol: 'BLFD',
+    quantity: 120,
+    costBasis: 128.4,
+    tradeDate: '2025-11-04',
+    createdAt: '2025-11-04T15:20:00Z',
+    updatedAt: '2025-11-04T15:20:00Z',
+  },
+  {
+    id: 'pos-002',
+    assetType: 'stock',
+    symbol: 'ALNA',
+    quantity: 300,
+    costBasis: 88.1,
+    tradeDate: '2026-01-12',
+    createdAt: '2026-01-12T14:05:00Z',
+    updatedAt: '2026-01-12T14:05:00Z',
+  },
+  {
+    id: 'pos-003',
+    assetType: 'bond',
+    symbol: 'bond-001',
+    quantity: 50000,
+    costBasis: 97.25,
+    tradeDate: '2025-09-30',
+    createdAt: '2025-09-30T10:00:00Z',
+    updatedAt: '2025-09-30T10:00:00Z',
+  },
+]
+let holdingSequence = holdings.length
+
+// Totals are reported in USD; EUR bonds convert at a fixed mock rate.
+const fxToUsd: Record<Bond['currency'], number> = { USD: 1, EUR: 1.08 }
+
+// Stocks are quoted per share and bonds as a percentage of par, so a bond's
+// quantity is its face amount and both prices scale by 1/100.
+const valueHolding = (holding: Holding) => {
+  if (holding.assetType === 'stock') {
+    const stock = stocks.find((item) => item.ticker === holding.symbol)
+    if (!stock) return null
+
+    const marketValue = holding.quantity * stock.price
+    const costValue = holding.quantity * holding.costBasis
+    const previousValue = marketValue / (1 + stock.changePercent / 100)
+
+    return {
+      ...holding,
+      name: stock.company,
+      sector: stock.sector,
+      currency: 'USD' as const,
+      price: stock.price,
+      marketValue: round(marketValue),
+      costValue: round(costValue),
+      unrealizedPnl: round(marketValue - costValue),
+      unrealizedPnlPercent: round(((marketValue - costValue) / costValue) * 100),
+      dayChange: round(marketValue - previousValue),
+    }
+  }
+
+  const bond = bonds.find((item) => item.id === holding.symbol)
+  if (!bond) return null
+
+  const marketValue = (holding.quantity * bond.price) / 100
+  const costValue = (holding.quantity * holding.costBasis) / 100
+
+  return {
+    ...holding,
+    name: bond.name,
+    sector: bond.sector,
+    currency: bond.currency,
+    price: bond.price,
+    marketValue: round(marketValue),
+    costValue: round(costValue),
+    unrealizedPnl: round(marketValue - costValue),
+    unrealizedPnlPercent: round(((marketValue - costValue) / costValue) * 100),
+    // The bond feed has no intraday change, so bonds contribute nothing here.
+    dayChange: 0,
+  }
+}
+
+const validateHolding = (body: Partial<Holding>) => {
+  if (body.assetType !== 'stock' && body.assetType !== 'bond') {
+    return 'Choose a stock or a bond'
+  }
+  const known =
+    body.assetType === 'stock'
+      ? stocks.some((stock) => stock.ticker === body.symbol)
+      : bonds.some((bond) => bond.id === body.symbol)
+  if (!known) return `Unknown ${body.assetType === 'stock' ? 'ticker' : 'bond'}`
+  if (!body.quantity || !(body.quantity > 0)) return 'Quantity must be positive'
+  if (!body.costBasis || !(body.costBasis > 0)) return 'Cost basis must be positive'
+  if (!body.tradeDate || Number.isNaN(Date.parse(body.tradeDate))) {
+    return 'Trade date is invalid'
+  }
+  if (Date.parse(body.tradeDate) > Date.now()) return 'Trade date cannot be in the future'
+  return null
+}
+
+type Order = {
+  id: string
+  assetType: 'stock' | 'bond'
+  symbol: string
+  name: string
+  side: 'buy' | 'sell'
+  quantity: number
+  orderType: 'market' | 'limit' | 'stop'
+  limitPrice: number | null
+  timeInForce: 'day' | 'gtc' | 'ioc'
+  status: 'working' | 'filled' | 'cancelled'
+  fillPrice: number | null
+  createdAt: string
+  filledAt: string | null
+  cancelledAt: string | null
+  reason: string | null
+}
+
+let orders: Order[] = []
+let orderSequence = 0
+
+const quoteFor = (order: Pick<Order, 'assetType' | 'symbol'>) =>
+  order.assetType === 'stock'
+    ? stocks.find((stock) => stock.ticker === order.symbol)?.price
+    : bonds.find((bond) => bond.id === order.symbol)?.price
+
+// Limits fill when the market trades through them; stops trigger once the
+// price crosses the stop and then fill at the market.
+const isMarketable = (order: Order, price: number) => {
+  if (order.orderType === 'market' || order.limitPrice === null) return true
+  if (order.orderType === 'limit') {
+    return order.side === 'buy' ? price <= order.limitPrice : price >= order.limitPrice
+  }
+  return order.side === 'buy' ? price >= order.limitPrice : price <= order.limitPrice
+}
+
+// The mock session closes at 21:00 UTC (4pm New York); DAY orders still
+// working at the first close after they were placed expire there.
+const sessionClose = (placedAt: string) => {
+  const close = new Date(placedAt)
+  close.setUTCHours(21, 0, 0, 0)
+  if (close.getTime() <= Date.parse(placedAt)) close.setUTCDate(close.getUTCDate() + 1)
+  return close
+}
+
+const fillOrder = (order: Order): Order => {
+  if (order.status !== 'working') return order
+
+  if (order.timeInForce === 'day') {
+    const close = sessionClose(order.createdAt)
+    if (Date.now() >= close.getTime()) {
+      return {
+        ...order,
+        status: 'cancelled',
+        cancelledAt: close.toISOString(),
+        reason: 'Expired at the close (DAY)',
+      }
+    }
+  }
+
+  const price = quoteFor(order)
+  const now = new Date().toISOString()
+
+  if (price !== undefined && isMarketable(order, price)) {
+    return { ...order, status: 'filled', fillPrice: price, filledAt: now }
+  }
+
+  return order.timeInForce === 'ioc'
+    ? { ...order, status: 'cancelled', cancelledAt: now, reason: 'Not marketable (IOC)' }
+    : order
+}
+
+const evaluateOrders = () => {
+  orders = orders.map(fillOrder)
+}
+
+const validateOrder = (body: Partial<Order>) => {
+  if (body.assetType !== 'stock' && body.assetType !== 'bond') return 'Unknown asset type'
+  if (quoteFor({ assetType: body.assetType, symbol: body.symbol ?? '' }) === undefined) {
+    return `Unknown ${body.assetType === 'stock' ? 'ticker' : 'bond'}`
+  }
+  if (body.side !== 'buy' && body.side !== 'sell') return 'Choose buy or sell'
+  if (!body.quantity || !(body.quantity > 0)) return 'Quantity must be positive'
+  if (!['market', 'limit', 'stop'].includes(body.orderType ?? '')) return 'Unknown order type'
+  if (body.orderType !== 'market' && !(Number(body.limitPrice) > 0)) {
+    return 'Limit and stop orders need a price'
+  }
+  if (!['day', 'gtc', 'ioc'].includes(body.timeInForce ?? '')) return 'Unknown time in force'
+  return null
+}
+
+type TermSheetStatus = 'submitted' | 'in-review' | 'issued'
+
+type TermSheetRequest = {
+  id: string
+  bondId: string
+  bondName: string
+  notional: number
+  currency: Bond['currency']
+  settlementDate: string
+  notes: string
+  status: TermSheetStatus
+  history: { status: TermSheetStatus; at: string }[]
+  createdAt: string
+  issuedAt: string | null
+}
+
+let termSheetRequests: TermSheetRequest[] = []
+let termSheetSequence = 0
+
+// The desk picks a request up a little after it lands and issues the term
+// sheet shortly after that. Progress is derived from the request's age
+// whenever the list is read, so no timers are needed.
+const termSheetSchedule: { status: TermSheetStatus; after: number }[] = [
+  { status: 'in-review', after: 10_000 },
+  { status: 'issued', after: 30_000 },
+]
+
+const advanceTermSheetRequests = () => {
+  const now = Date.now()
+
+  termSheetRequests = termSheetRequests.map((request) => {
+    const created = Date.parse(request.createdAt)
+    const reached = termSheetSchedule.filter(
+      (step) =>
+        now - created >= step.after &&
+        !request.history.some((entry) => entry.status === step.status),
+    )
+    if (!reached.length) return request
+
+    const history = [
+      ...request.history,
+      ...reached.map((step) => ({
+        status: step.status,
+        at: new Date(created + step.after).toISOString(),
+      })),
+    ]
+    const latest = history[history.length - 1]
+
+    return {
+      ...request,
+      status: latest.status,
+      history,
+      issuedAt: latest.status === 'issued' ? latest.at : null,
+    }
+  })
+}
+
+const validateTermSheetRequest = (bond: Bond, body: Partial<TermSheetRequest>) => {
+  if (!body.notional || !(body.notional > 0)) return 'Notional must be positive'
+  if (body.currency !== 'USD' && body.currency !== 'EUR') return 'Choose USD or EUR'
+  if (!body.settlementDate || Number.isNaN(Date.parse(body.settlementDate))) {
+    return 'Settlement date is required'
+  }
+  if (body.settlementDate < new Date().toISOString().slice(0, 10)) {
+    return 'Settlement date cannot be in the past'
+  }
+  if (body.settlementDate >= bond.maturity) return 'Settlement must fall before maturity'
+  if (body.notes !== undefined && typeof body.notes !== 'string') return 'Notes must be text'
+  if ((body.notes ?? '').length > 500) return 'Notes must be 500 characters or fewer'
+  return null
+}
+
 const sectors = Array.from(new Set(stocks.map((stock) => stock.sector)))
 
+const ratings: Stock['rating'][] = ['Buy', 'Hold', 'Sell']
+
+const countBy = <Key extends string>(items: Stock[], keys: Key[], pick: (stock: Stock) => Key) =>
+  Object.fromEntries(
+    keys.map((key) => [key, items.filter((stock) => pick(stock) === key).length]),
+  ) as Record<Key, number>
+
+// Aggregates cover the whole filtered set, not just the requested page.
+const summarize = (items: Stock[]) => {
+  const totalMarketCap = items.reduce((sum, stock) => sum + stock.marketCap, 0)
+
+  return {
+    advancers: items.filter((stock) => stock.changePercent > 0).length,
+    decliners: items.filter((stock) => stock.changePercent < 0).length,
+    unchanged: items.filter((stock) => stock.changePercent === 0).length,
+    capWeightedChange: totalMarketCap
+      ? round(
+          items.reduce((sum, stock) => sum + stock.changePercent * stock.marketCap, 0) /
+            totalMarketCap,
+        )
+      : 0,
+    totalVolume: items.reduce((sum, stock) => sum + stock.volume, 0),
+    totalMarketCap,
+    sectors: sectors
+      .map((sector) => {
+        const members = items.filter((stock) => stock.sector === sector)
+        return {
+          sector,
+          count: members.length,
+          marketCap: members.reduce((sum, stock) => sum + stock.marketCap, 0),
+        }
+      })
+      .filter((entry) => entry.count > 0)
+      .sort((a, b) => b.marketCap - a.marketCap),
+    ratings: countBy(items, ratings, (stock) => stock.rating),
+  }
+}
+
+const boundsOf = (values: number[]) => ({
+  min: Math.min(...values),
+  max: Math.max(...values),
+})
+
 const parseNumber = (value: string | null) =>
   value === null || value.trim() === '' ? undefined : Number(value)
 
+const sortableStockKeys: (keyof Stock)[] = [
+  'ticker',
+  'company',
+  'sector',
+  'price',
+  'changePercent',
+  'volume',
+  'marketCap',
+  'rating',
+  'lastUpdated',
+]
+
+const bondSectors = [...new Set(bonds.map((bond) => bond.sector))].sort()
+
+const bondRatingRank: Record<Bond['rating'], number> = { AAA: 0, AA: 1, A: 2, BBB: 3, BB: 4 }
+
+const sortableBondKeys: (keyof Bond)[] = [
+  'name',
+  'rating',
+  'coupon',
+  'maturity',
+  'yieldToMaturity',
+  'duration',
+  'price',
+  'currency',
+  'sector',
+  'nextCall',
+  'size',
+]
+
+// Ratings sort by credit quality rather than alphabetically, and bonds with
+// no call date sort after every callable one.
+const compareBonds = (key: keyof Bond) => (a: Bond, b: Bond) => {
+  if (key === 'rating') return bondRatingRank[a.rating] - bondRatingRank[b.rating]
+
+  const left = a[key]
+  const right = b[key]
+
+  if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right
+  }
+
+  return String(left).localeCompare(String(right))
+}
+
+const compareStocks = (key: keyof Stock) => (a: Stock, b: Stock) => {
+  const left = a[key]
+  const right = b[key]
+
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right
+  }
+
+  return String(left).localeCompare(String(right))
+}
+
 export const handlers = [
   http.all('*', async () => {
     await delay(1000)
   }),
+  sse<{ tick: PriceTick[] }>('/api/stocks/stream', ({ client, request }) => {
+    const timer = setInterval(() => {
+      try {
+        client.send({ event: 'tick', data: nextTicks(3) })
+        evaluateAlerts()
+        evaluateOrders()
+      } catch {
+        clearInterval(timer)
+      }
+    }, 1500)
+
+    request.signal.addEventListener('abort', () => clearInterval(timer))
+  }),
   http.get('/api/stocks', ({ request }: { request: Request }) => {
     const url = new URL(request.url)
     const search = url.searchParams.get('search')?.toLowerCase() ?? ''
-    const sector = url.searchParams.get('sector') ?? 'All'
-    const rating = url.searchParams.get('rating') ?? 'All'
+    const sectorFilter = url.searchParams.getAll('sector')
+    const ratingFilter = url.searchParams.getAll('rating')
     const change = url.searchParams.get('change') ?? 'any'
     const minPrice = parseNumber(url.searchParams.get('minPrice'))
     const maxPrice = parseNumber(url.searchParams.get('maxPrice'))
     const minCap = parseNumber(url.searchParams.get('minCap'))
     const maxCap = parseNumber(url.searchParams.get('maxCap'))
+    const watchlistId = url.searchParams.get('watchlist')
+    const watchlist = watchlistId
+      ? watchlists.find((item) => item.id === watchlistId)
+      : undefined
+    const sort = url.searchParams.get('sort') as keyof Stock | null
+    const order = url.searchParams.get('order') === 'desc' ? 'desc' : 'asc'
+    const pageSize = Math.max(1, parseNumber(url.searchParams.get('pageSize')) ?? 10)
+    const page = Math.max(1, parseNumber(url.searchParams.get('page')) ?? 1)
 
-    const filtered = stocks.filter((stock) => {
+    // Each facet is counted with every filter applied except its own, so the
+    // counts show what ticking another option would add.
+    const matches = (stock: Stock, ignore?: 'sector' | 'rating') => {
       if (search) {
         const haystack = `${stock.ticker} ${stock.company}`.toLowerCase()
         if (!haystack.includes(search)) return false
       }
 
-      if (sector !== 'All' && stock.sector !== sector) return false
-      if (rating !== 'All' && stock.rating !== rating) return false
+      if (ignore !== 'sector' && sectorFilter.length && !sectorFilter.includes(stock.sector)) {
+        return false
+      }
+      if (ignore !== 'rating' && ratingFilter.length && !ratingFilter.includes(stock.rating)) {
+        return false
+      }
 
       if (change === 'positive' && stock.changePercent <= 0) return false
       if (change === 'negative' && stock.changePercent >= 0) return false
@@ -577,28 +1529,649 @@ export const handlers = [
       if (minCap !== undefined && stock.marketCap < minCap) return false
       if (maxCap !== undefined && stock.marketCap > maxCap) return false
 
+      if (watchlistId && !watchlist?.tickers.includes(stock.ticker)) return false
+
       return true
-    })
+    }
+
+    const filtered = stocks.filter((stock) => matches(stock))
+    const facets = {
+      sector: countBy(
+        stocks.filter((stock) => matches(stock, 'sector')),
+        sectors,
+        (stock) => stock.sector,
+      ),
+      rating: countBy(
+        stocks.filter((stock) => matches(stock, 'rating')),
+        ratings,
+        (stock) => stock.rating,
+      ),
+    }
+
+    evaluateAlerts()
+
+    if (sort && sortableStockKeys.includes(sort)) {
+      filtered.sort(compareStocks(sort))
+      if (order === 'desc') filtered.reverse()
+    }
+
+    const pageCount = Math.max(1, Math.ceil(filtered.length / pageSize))
+    const start = (page - 1) * pageSize
 
     return HttpResponse.json({
-      data: filtered,
+      data: filtered.slice(start, start + pageSize),
       meta: {
         total: filtered.length,
+        page,
+        pageSize,
+        pageCount,
         sectors,
+        facets,
+        aggregates: summarize(filtered),
+        bounds: {
+          price: boundsOf(stocks.map((stock) => stock.price)),
+          marketCap: boundsOf(stocks.map((stock) => stock.marketCap)),
+        },
       },
     })
   }),
-  http.get('/api/bonds', () => {
-    const options = bonds.map((bond) => ({
-      id: bond.id,
-      name: bond.name,
-      issuer: bond.issuer,
-      rating: bond.rating,
+  http.get('/api/stocks/suggest', ({ request }) => {
+    const url = new URL(request.url)
+    const query = url.searchParams.get('q')?.trim().toLowerCase() ?? ''
+    const limit = Math.min(20, Math.max(1, parseNumber(url.searchParams.get('limit')) ?? 8))
+
+    if (!query) {
+      return HttpResponse.json({ data: [], meta: { total: 0 } })
+    }
+
+    // Ticker prefix matches always outrank company-name substring matches;
+    // within each group exact and earlier matches come first.
+    const ranked = stocks
+      .map((stock) => {
+        const ticker = stock.ticker.toLowerCase()
+        const index = stock.company.toLowerCase().indexOf(query)
+
+        if (ticker.startsWith(query)) {
+          return { stock, matchedOn: 'ticker' as const, score: ticker === query ? 0 : 1 }
+        }
+
+        return index === -1 ? null : { stock, matchedOn: 'company' as const, score: 2 + index / 100 }
+      })
+      .filter((match) => match !== null)
+      .sort((a, b) => a.score - b.score || a.stock.ticker.localeCompare(b.stock.ticker))
+
+    return HttpResponse.json({
+      data: ranked.slice(0, limit).map(({ stock, matchedOn }) => ({
+        ticker: stock.ticker,
+        company: stock.company,
+        sector: stock.sector,
+        price: stock.price,
+        matchedOn,
+      })),
+      meta: { total: ranked.length },
+    })
+  }),
+  http.get('/api/stocks/:ticker', ({ params }) => {
+    const ticker = String(params.ticker).toUpperCase()
+    const stock = stocks.find((item) => item.ticker === ticker)
+
+    if (!stock) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    return HttpResponse.json({ data: stock })
+  }),
+  http.get('/api/stocks/:ticker/history', ({ params, request }) => {
+    const ticker = String(params.ticker).toUpperCase()
+    const stock = stocks.find((item) => item.ticker === ticker)
+
+    if (!stock) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    const url = new URL(request.url)
+    const requested = url.searchParams.get('range') ?? '1M'
+    const range: HistoryRange = requested in historyShapes ? (requested as HistoryRange) : '1M'
+    const history = buildHistory(stock, range)
+
+    return HttpResponse.json({
+      data: history,
+      meta: { ticker, range, total: history.length },
+    })
+  }),
+  http.get('/api/screens', () => {
+    return HttpResponse.json({
+      data: screens,
+      meta: { total: screens.length },
+    })
+  }),
+  http.post('/api/screens', async ({ request }) => {
+    const body = (await request.json()) as Partial<Pick<SavedScreen, 'name' | 'filters'>>
+    const name = body.name?.trim()
+
+    if (!name || !body.filters) {
+      return HttpResponse.json(
+        { error: 'A screen needs a name and a filter set' },
+        { status: 400 },
+      )
+    }
+
+    screenSequence += 1
+    const now = new Date().toISOString()
+    const screen: SavedScreen = {
+      id: `scr-${String(screenSequence).padStart(3, '0')}`,
+      name,
+      filters: { ...screenFilters, ...body.filters },
+      createdAt: now,
+      updatedAt: now,
+    }
+    screens = [...screens, screen]
+
+    return HttpResponse.json({ data: screen }, { status: 201 })
+  }),
+  http.patch('/api/screens/:id', async ({ params, request }) => {
+    const screen = screens.find((item) => item.id === params.id)
+
+    if (!screen) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    const body = (await request.json()) as Partial<Pick<SavedScreen, 'name' | 'filters'>>
+    const name = body.name?.trim()
+
+    if (body.name !== undefined && !name) {
+      return HttpResponse.json({ error: 'A screen needs a name' }, { status: 400 })
+    }
+
+    const updated: SavedScreen = {
+      ...screen,
+      name: name ?? screen.name,
+      filters: body.filters ? { ...screen.filters, ...body.filters } : screen.filters,
+      updatedAt: new Date().toISOString(),
+    }
+    screens = screens.map((item) => (item.id === updated.id ? updated : item))
+
+    return HttpResponse.json({ data: updated })
+  }),
+  http.delete('/api/screens/:id', ({ params }) => {
+    if (!screens.some((item) => item.id === params.id)) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    screens = screens.filter((item) => item.id !== params.id)
+
+    return new HttpResponse(null, { status: 204 })
+  }),
+  http.get('/api/preferences', () => {
+    return HttpResponse.json({ data: preferences })
+  }),
+  http.patch('/api/preferences', async ({ request }) => {
+    const body = (await request.json()) as Partial<Pick<Preferences, 'stocksTable'>>
+
+    if (body.stocksTable && !isTableLayout(body.stocksTable)) {
+      return HttpResponse.json({ error: 'Invalid table layout' }, { status: 400 })
+    }
+
+    preferences = {
+      ...preferences,
+      ...(body.stocksTable !== undefined && { stocksTable: body.stocksTable }),
+      updatedAt: new Date().toISOString(),
+    }
+
+    return HttpResponse.json({ data: preferences })
+  }),
+  http.get('/api/watchlists', () => {
+    return HttpResponse.json({
+      data: watchlists,
+      meta: { total: watchlists.length },
+    })
+  }),
+  http.post('/api/watchlists', async ({ request }) => {
+    const body = (await request.json()) as Partial<Pick<Watchlist, 'name' | 'tickers'>>
+    const name = body.name?.trim()
+
+    if (!name) {
+      return HttpResponse.json({ error: 'A watchlist needs a name' }, { status: 400 })
+    }
+
+    watchlistSequence += 1
+    const now = new Date().toISOString()
+    const watchlist: Watchlist = {
+      id: `wl-${String(watchlistSequence).padStart(3, '0')}`,
+      name,
+      tickers: Array.from(new Set(body.tickers ?? [])),
+      createdAt: now,
+      updatedAt: now,
+    }
+    watchlists = [...watchlists, watchlist]
+
+    return HttpResponse.json({ data: watchlist }, { status: 201 })
+  }),
+  http.patch('/api/watchlists/:id', async ({ params, request }) => {
+    const watchlist = watchlists.find((item) => item.id === params.id)
+
+    if (!watchlist) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    const body = (await request.json()) as Partial<Pick<Watchlist, 'name'>>
+    const name = body.name?.trim()
+
+    if (!name) {
+      return HttpResponse.json({ error: 'A watchlist needs a name' }, { status: 400 })
+    }
+
+    return HttpResponse.json({
+      data: saveWatchlist({ ...watchlist, name, updatedAt: new Date().toISOString() }),
+    })
+  }),
+  http.delete('/api/watchlists/:id', ({ params }) => {
+    if (!watchlists.some((item) => item.id === params.id)) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    watchlists = watchlists.filter((item) => item.id !== params.id)
+
+    return new HttpResponse(null, { status: 204 })
+  }),
+  http.post('/api/watchlists/:id/tickers', async ({ params, request }) => {
+    const watchlist = watchlists.find((item) => item.id === params.id)
+
+    if (!watchlist) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    const body = (await request.json()) as { tickers?: string[] }
+    const known = (body.tickers ?? []).filter((ticker) =>
+      stocks.some((stock) => stock.ticker === ticker),
+    )
+
+    if (known.length === 0) {
+      return HttpResponse.json({ error: 'No known tickers to add' }, { status: 400 })
+    }
+
+    return HttpResponse.json({
+      data: saveWatchlist({
+        ...watchlist,
+        tickers: Array.from(new Set([...watchlist.tickers, ...known])),
+        updatedAt: new Date().toISOString(),
+      }),
+    })
+  }),
+  http.delete('/api/watchlists/:id/tickers/:ticker', ({ params }) => {
+    const watchlist = watchlists.find((item) => item.id === params.id)
+
+    if (!watchlist) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    return HttpResponse.json({
+      data: saveWatchlist({
+        ...watchlist,
+        tickers: watchlist.tickers.filter((ticker) => ticker !== params.ticker),
+        updatedAt: new Date().toISOString(),
+      }),
+    })
+  }),
+  http.get('/api/alerts', () => {
+    const data = alertRules.map((rule) => ({
+      ...rule,
+      history: alertEvents.filter((event) => event.ruleId === rule.id),
     }))
 
+    return HttpResponse.json({ data, meta: { total: data.length } })
+  }),
+  http.post('/api/alerts', async ({ request }) => {
+    const body = (await request.json()) as Partial<
+      Pick<AlertRule, 'ticker' | 'sector' | 'metric' | 'condition' | 'threshold'>
+    >
+    const ticker = body.ticker ?? null
+    const sector = body.sector ?? null
+
+    if (
+      (!ticker && !sector) ||
+      (ticker && !stocks.some((stock) => stock.ticker === ticker)) ||
+      (sector && !sectors.includes(sector)) ||
+      (body.metric !== 'price' && body.metric !== 'changePercent') ||
+      (body.condition !== 'above' && body.condition !== 'below') ||
+      typeof body.threshold !== 'number' ||
+      !Number.isFinite(body.threshold)
+    ) {
+      return HttpResponse.json({ error: 'Invalid alert rule' }, { status: 400 })
+    }
+
+    alertSequence += 1
+    const rule: AlertRule = {
+      id: `alr-${String(alertSequence).padStart(3, '0')}`,
+      ticker,
+      sector: ticker ? null : sector,
+      metric: body.metric,
+      condition: body.condition,
+      threshold: body.threshold,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+      triggeredAt: null,
+    }
+    alertRules = [...alertRules, rule]
+    armAlert(rule)
+
+    return HttpResponse.json({ data: { ...rule, history: [] } }, { status: 201 })
+  }),
+  http.get('/api/alerts/notifications', () => {
     return HttpResponse.json({
-      data: options,
-      meta: { total: options.length },
+      data: alertEvents,
+      meta: {
+        total: alertEvents.length,
+        unread: alertEvents.filter((event) => !event.read).length,
+      },
+    })
+  }),
+  http.post('/api/alerts/notifications/read', async ({ request }) => {
+    const body = (await request.json()) as { ids?: string[] }
+
+    alertEvents = alertEvents.map((event) =>
+      !body.ids || body.ids.includes(event.id) ? { ...event, read: true } : event,
+    )
+
+    return new HttpResponse(null, { status: 204 })
+  }),
+  http.patch('/api/alerts/:id', async ({ params, request }) => {
+    const rule = alertRules.find((item) => item.id === params.id)
+
+    if (!rule) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    const body = (await request.json()) as Partial<Pick<AlertRule, 'status'>>
+
+    if (body.status !== 'pending') {
+      return HttpResponse.json({ error: 'Alerts can only be re-armed' }, { status: 400 })
+    }
+
+    const updated: AlertRule = { ...rule, status: 'pending', triggeredAt: null }
+    alertRules = alertRules.map((item) => (item.id === updated.id ? updated : item))
+    armAlert(updated)
+
+    return HttpResponse.json({
+      data: {
+        ...updated,
+        history: alertEvents.filter((event) => event.ruleId === updated.id),
+      },
+    })
+  }),
+  http.delete('/api/alerts/:id', ({ params }) => {
+    if (!alertRules.some((item) => item.id === params.id)) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    alertRules = alertRules.filter((item) => item.id !== params.id)
+    alertMatches.delete(String(params.id))
+
+    return new HttpResponse(null, { status: 204 })
+  }),
+  http.get('/api/portfolio', () => {
+    const positions = holdings
+      .map(valueHolding)
+      .filter((position) => position !== null)
+    const inUsd = (position: (typeof positions)[number], value: number) =>
+      value * fxToUsd[position.currency]
+
+    const marketValue = positions.reduce(
+      (sum, position) => sum + inUsd(position, position.marketValue),
+      0,
+    )
+    const costValue = positions.reduce(
+      (sum, position) => sum + inUsd(position, position.costValue),
+      0,
+    )
+    const dayChange = positions.reduce(
+      (sum, position) => sum + inUsd(position, position.dayChange),
+      0,
+    )
+    const allocation = Array.from(new Set(positions.map((position) => position.sector)))
+      .map((sector) => {
+        const value = positions
+          .filter((position) => position.sector === sector)
+          .reduce((sum, position) => sum + inUsd(position, position.marketValue), 0)
+        return {
+          sector,
+          marketValue: round(value),
+          weight: marketValue ? round((value / marketValue) * 100) : 0,
+        }
+      })
+      .sort((a, b) => b.marketValue - a.marketValue)
+
+    return HttpResponse.json({
+      data: positions,
+      meta: {
+        total: positions.length,
+        currency: 'USD',
+        marketValue: round(marketValue),
+        costValue: round(costValue),
+        unrealizedPnl: round(marketValue - costValue),
+        unrealizedPnlPercent: costValue ? round(((marketValue - costValue) / costValue) * 100) : 0,
+        dayChange: round(dayChange),
+        dayChangePercent: marketValue - dayChange
+          ? round((dayChange / (marketValue - dayChange)) * 100)
+          : 0,
+        allocation,
+      },
+    })
+  }),
+  http.post('/api/portfolio', async ({ request }) => {
+    const body = (await request.json()) as Partial<Holding>
+    const error = validateHolding(body)
+
+    if (error) {
+      return HttpResponse.json({ error }, { status: 400 })
+    }
+
+    holdingSequence += 1
+    const now = new Date().toISOString()
+    const holding: Holding = {
+      id: `pos-${String(holdingSequence).padStart(3, '0')}`,
+      assetType: body.assetType!,
+      symbol: body.symbol!,
+      quantity: body.quantity!,
+      costBasis: body.costBasis!,
+      tradeDate: body.tradeDate!,
+      createdAt: now,
+      updatedAt: now,
+    }
+    holdings = [...holdings, holding]
+
+    return HttpResponse.json({ data: valueHolding(holding) }, { status: 201 })
+  }),
+  http.patch('/api/portfolio/:id', async ({ params, request }) => {
+    const holding = holdings.find((item) => item.id === params.id)
+
+    if (!holding) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    const body = (await request.json()) as Partial<Holding>
+    const updated = { ...holding, ...body, id: holding.id, createdAt: holding.createdAt }
+    const error = validateHolding(updated)
+
+    if (error) {
+      return HttpResponse.json({ error }, { status: 400 })
+    }
+
+    const saved = { ...updated, updatedAt: new Date().toISOString() }
+    holdings = holdings.map((item) => (item.id === saved.id ? saved : item))
+
+    return HttpResponse.json({ data: valueHolding(saved) })
+  }),
+  http.delete('/api/portfolio/:id', ({ params }) => {
+    if (!holdings.some((item) => item.id === params.id)) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    holdings = holdings.filter((item) => item.id !== params.id)
+
+    return new HttpResponse(null, { status: 204 })
+  }),
+  http.get('/api/orders', ({ request }) => {
+    const status = new URL(request.url).searchParams.get('status')
+    evaluateOrders()
+
+    const data = status ? orders.filter((order) => order.status === status) : orders
+
+    return HttpResponse.json({
+      data,
+      meta: {
+        total: data.length,
+        counts: {
+          working: orders.filter((order) => order.status === 'working').length,
+          filled: orders.filter((order) => order.status === 'filled').length,
+          cancelled: orders.filter((order) => order.status === 'cancelled').length,
+        },
+      },
+    })
+  }),
+  http.post('/api/orders', async ({ request }) => {
+    const body = (await request.json()) as Partial<Order>
+    const error = validateOrder(body)
+
+    if (error) {
+      return HttpResponse.json({ error }, { status: 400 })
+    }
+
+    orderSequence += 1
+    const name =
+      body.assetType === 'stock'
+        ? (stocks.find((stock) => stock.ticker === body.symbol)?.company ?? body.symbol!)
+        : (bonds.find((bond) => bond.id === body.symbol)?.name ?? body.symbol!)
+    const order = fillOrder({
+      id: `ord-${String(orderSequence).padStart(4, '0')}`,
+      assetType: body.assetType!,
+      symbol: body.symbol!,
+      name,
+      side: body.side!,
+      quantity: body.quantity!,
+      orderType: body.orderType!,
+      limitPrice: body.orderType === 'market' ? null : Number(body.limitPrice),
+      timeInForce: body.timeInForce!,
+      status: 'working',
+      fillPrice: null,
+      createdAt: new Date().toISOString(),
+      filledAt: null,
+      cancelledAt: null,
+      reason: null,
+    })
+    orders = [order, ...orders]
+
+    return HttpResponse.json({ data: order }, { status: 201 })
+  }),
+  http.patch('/api/orders/:id', async ({ params, request }) => {
+    const order = orders.find((item) => item.id === params.id)
+
+    if (!order) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    const body = (await request.json()) as Partial<Pick<Order, 'status'>>
+
+    if (body.status !== 'cancelled') {
+      return HttpResponse.json({ error: 'Orders can only be cancelled' }, { status: 400 })
+    }
+    if (order.status !== 'working') {
+      return HttpResponse.json({ error: `Order is already ${order.status}` }, { status: 409 })
+    }
+
+    const cancelled: Order = {
+      ...order,
+      status: 'cancelled',
+      cancelledAt: new Date().toISOString(),
+      reason: 'Cancelled by user',
+    }
+    orders = orders.map((item) => (item.id === cancelled.id ? cancelled : item))
+
+    return HttpResponse.json({ data: cancelled })
+  }),
+  http.get('/api/bonds', ({ request }) => {
+    const url = new URL(request.url)
+    const ratingFilter = url.searchParams.getAll('rating')
+    const currencyFilter = url.searchParams.getAll('currency')
+    const sectorFilter = url.searchParams.getAll('sector')
+    const minCoupon = parseNumber(url.searchParams.get('minCoupon'))
+    const maxCoupon = parseNumber(url.searchParams.get('maxCoupon'))
+    const minMaturity = parseNumber(url.searchParams.get('minMaturity'))
+    const maxMaturity = parseNumber(url.searchParams.get('maxMaturity'))
+    const minYield = parseNumber(url.searchParams.get('minYield'))
+    const maxYield = parseNumber(url.searchParams.get('maxYield'))
+    const minDuration = parseNumber(url.searchParams.get('minDuration'))
+    const maxDuration = parseNumber(url.searchParams.get('maxDuration'))
+    const callable = url.searchParams.get('callable') ?? 'any'
+
+    const filtered = bonds.filter((bond) => {
+      if (ratingFilter.length && !ratingFilter.includes(bond.rating)) return false
+      if (currencyFilter.length && !currencyFilter.includes(bond.currency)) return false
+      if (sectorFilter.length && !sectorFilter.includes(bond.sector)) return false
+
+      if (minCoupon !== undefined && bond.coupon < minCoupon) return false
+      if (maxCoupon !== undefined && bond.coupon > maxCoupon) return false
+
+      // The maturity window is expressed in whole years.
+      const maturityYear = Number(bond.maturity.slice(0, 4))
+      if (minMaturity !== undefined && maturityYear < minMaturity) return false
+      if (maxMaturity !== undefined && maturityYear > maxMaturity) return false
+
+      if (minYield !== undefined && bond.yieldToMaturity < minYield) return false
+      if (maxYield !== undefined && bond.yieldToMaturity > maxYield) return false
+
+      if (minDuration !== undefined && bond.duration < minDuration) return false
+      if (maxDuration !== undefined && bond.duration > maxDuration) return false
+
+      if (callable === 'callable' && bond.nextCall === null) return false
+      if (callable === 'non-callable' && bond.nextCall !== null) return false
+
+      return true
+    })
+
+    // Without view=full the endpoint keeps serving the lightweight option
+    // list the bond pickers were built against.
+    if (url.searchParams.get('view') !== 'full') {
+      const options = filtered.map((bond) => ({
+        id: bond.id,
+        name: bond.name,
+        issuer: bond.issuer,
+        rating: bond.rating,
+      }))
+
+      return HttpResponse.json({
+        data: options,
+        meta: { total: options.length },
+      })
+    }
+
+    const sort = url.searchParams.get('sort') as keyof Bond | null
+    const order = url.searchParams.get('order') === 'desc' ? 'desc' : 'asc'
+    const pageSize = Math.max(1, parseNumber(url.searchParams.get('pageSize')) ?? 10)
+    const page = Math.max(1, parseNumber(url.searchParams.get('page')) ?? 1)
+
+    if (sort && sortableBondKeys.includes(sort)) {
+      filtered.sort(compareBonds(sort))
+      if (order === 'desc') filtered.reverse()
+    }
+
+    const start = (page - 1) * pageSize
+
+    return HttpResponse.json({
+      data: filtered.slice(start, start + pageSize),
+      meta: {
+        total: filtered.length,
+        page,
+        pageSize,
+        pageCount: Math.max(1, Math.ceil(filtered.length / pageSize)),
+        sectors: bondSectors,
+        bounds: {
+          coupon: boundsOf(bonds.map((bond) => bond.coupon)),
+          maturity: boundsOf(bonds.map((bond) => Number(bond.maturity.slice(0, 4)))),
+          yieldToMaturity: boundsOf(bonds.map((bond) => bond.yieldToMaturity)),
+          duration: boundsOf(bonds.map((bond) => bond.duration)),
+        },
+      },
     })
   }),
   http.get('/api/bonds/:id', ({ params }) => {
@@ -610,6 +2183,95 @@ export const handlers = [
 
     return HttpResponse.json({ data: bond })
   }),
+  // Projects the remaining coupons from today. The call scenario assumes the
+  // issuer redeems at par on the next call date and stops paying coupons.
+  http.get('/api/bonds/:id/cashflows', ({ params, request }) => {
+    const bond = bonds.find((item) => item.id === params.id)
+
+    if (!bond) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    const url = new URL(request.url)
+    const scenario = url.searchParams.get('scenario') === 'call' ? 'call' : 'maturity'
+    const face = parseNumber(url.searchParams.get('face')) ?? 100
+
+    if (!Number.isFinite(face) || face <= 0) {
+      return HttpResponse.json({ error: 'Face value must be a positive number' }, { status: 400 })
+    }
+    if (scenario === 'call' && !bond.nextCall) {
+      return HttpResponse.json({ error: `${bond.name} is not callable` }, { status: 400 })
+    }
+
+    const redemptionDate = scenario === 'call' ? bond.nextCall! : bond.maturity
+    const convention = marketConvention(bond.currency)
+    const settlement = new Date().toISOString().slice(0, 10)
+    const { upcoming } = couponSchedule(
+      { coupon: bond.coupon, maturity: redemptionDate, ...convention },
+      settlement,
+    )
+    const coupon = round((face * bond.coupon) / 100 / convention.frequency, 4)
+    const flows = upcoming.map((date, index) => {
+      const principal = index === upcoming.length - 1 ? face : 0
+      return { date, coupon, principal, total: round(coupon + principal, 4) }
+    })
+
+    return HttpResponse.json({
+      data: flows,
+      meta: {
+        bondId: bond.id,
+        scenario,
+        redemptionDate,
+        face,
+        currency: bond.currency,
+        frequency: convention.frequency,
+        settlement,
+        totalCoupons: round(flows.reduce((sum, flow) => sum + flow.coupon, 0), 4),
+        totalPrincipal: flows.length ? face : 0,
+      },
+    })
+  }),
+  http.get('/api/term-sheet-requests', () => {
+    advanceTermSheetRequests()
+
+    return HttpResponse.json({
+      data: termSheetRequests,
+      meta: { total: termSheetRequests.length },
+    })
+  }),
+  http.post('/api/bonds/:id/term-sheet-requests', async ({ params, request }) => {
+    const bond = bonds.find((item) => item.id === params.id)
+
+    if (!bond) {
+      return new HttpResponse(null, { status: 404 })
+    }
+
+    const body = (await request.json()) as Partial<TermSheetRequest>
+    const error = validateTermSheetRequest(bond, body)
+
+    if (error) {
+      return HttpResponse.json({ error }, { status: 400 })
+    }
+
+    termSheetSequence += 1
+    const createdAt = new Date().toISOString()
+    const created: TermSheetRequest = {
+      id: `tsr-${String(termSheetSequence).padStart(3, '0')}`,
+      bondId: bond.id,
+      bondName: bond.name,
+      notional: body.notional!,
+      currency: body.currency!,
+      settlementDate: body.settlementDate!,
+      notes: body.notes?.trim() ?? '',
+      status: 'submitted',
+      history: [{ status: 'submitted', at: createdAt }],
+      createdAt,
+      issuedAt: null,
+    }
+    termSheetRequests = [created, ...termSheetRequests]
+
+    return HttpResponse.json({ data: created }, { status: 201 })
+  }),
   http.get('/api/services/brief', () => {
     return HttpResponse.json({ data: serviceBrief })
   }),
@@ -1,24 +1,57 @@
-import { useState, useEffect, useMemo } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
+import {
+  type QueryClient,
+  keepPreviousData,
+  queryOptions,
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query'
 import { useForm, useWatch } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import {
   Link,
   Outlet,
-  createRootRoute,
+  createRootRouteWithContext,
   createRoute,
   createRouter,
+  notFound,
+  stripSearchParams,
+  useNavigate,
+  useRouterState,
 } from '@tanstack/react-router'
 import {
   flexRender,
   getCoreRowModel,
   getPaginationRowModel,
   getSortedRowModel,
+  functionalUpdate,
   type ColumnDef,
+  type ColumnOrderState,
+  type ColumnSizingState,
+  type PaginationState,
+  type RowSelectionState,
   type SortingState,
+  type Table,
+  type VisibilityState,
   useReactTable,
 } from '@tanstack/react-table'
+import {
+  analyzeBond,
+  dayCounts,
+  estimatePriceChange,
+  fitNelsonSiegel,
+  marketConvention,
+  NELSON_SIEGEL_MIN_POINTS,
+  nelsonSiegelYield,
+  priceFromYield,
+  yearFraction,
+  type BondTerms,
+  type DayCount,
+  type NelsonSiegel,
+} from './bondAnalytics'
 
 type BondOption = {
   id: string
@@ -127,6 +160,11 @@ const fetchBondOptions = async () => {
 const fetchBondDetail = async (bondId: string) => {
   const response = await fetch(`/api/bonds/${bondId}`)
 
+  // Surfaces as the bond route's not-found component rather than an error.
+  if (response.status === 404) {
+    throw notFound()
+  }
+
   if (!response.ok) {
     throw new Error('Unable to load bond detail')
   }
@@ -134,6 +172,54 @@ const fetchBondDetail = async (bondId: string) => {
   return (await response.json()) as { data: Bond }
 }
 
+// Shared by the bond route loader, hover prefetching and the dossier itself
+// so all three read and fill the same cache entry.
+const bondDetailQuery = (bondId: string) =>
+  queryOptions({
+    queryKey: ['bond-detail', { id: bondId }],
+    queryFn: () => fetchBondDetail(bondId),
+  })
+
+type BondCashflow = {
+  date: string
+  coupon: number
+  principal: number
+  total: number
+}
+
+type CashflowScenario = 'maturity' | 'call'
+
+const fetchBondCashflows = async (
+  bondId: string,
+  scenario: CashflowScenario,
+  face: number,
+  signal?: AbortSignal,
+) => {
+  const params = new URLSearchParams({ scenario, face: String(face) })
+  const response = await fetch(`/api/bonds/${bondId}/cashflows?${params.toString()}`, {
+    signal,
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to load the cash-flow schedule')
+  }
+
+  return (await response.json()) as {
+    data: BondCashflow[]
+    meta: {
+      bondId: string
+      scenario: CashflowScenario
+      redemptionDate: string
+      face: number
+      currency: Bond['currency']
+      frequency: number
+      settlement: string
+      totalCoupons: number
+      totalPrincipal: number
+    }
+  }
+}
+
 type ServiceBrief = {
   clientName: string
   email: string
@@ -180,26 +266,110 @@ type Stock = {
 
 type Filters = {
   search: string
-  sector: string
-  rating: string
+  sector: string[]
+  rating: Stock['rating'][]
   change: 'any' | 'positive' | 'negative'
   minPrice: string
   maxPrice: string
   minCap: string
   maxCap: string
+  watchlist: string
 }
 
 const defaultFilters: Filters = {
   search: '',
-  sector: 'All',
-  rating: 'All',
+  sector: [],
+  rating: [],
   change: 'any',
   minPrice: '',
   maxPrice: '',
   minCap: '',
   maxCap: '',
+  watchlist: 'All',
+}
+
+const stockRatings: Stock['rating'][] = ['Buy', 'Hold', 'Sell']
+
+const stockSortColumns = [
+  'ticker',
+  'company',
+  'sector',
+  'price',
+  'changePercent',
+  'volume',
+  'marketCap',
+  'rating',
+  'lastUpdated',
+] as const
+
+const pageSizeOptions = [5, 10, 15, 20]
+
+// Numeric-looking values arrive as numbers from the router's JSON search
+// parser, so text filters accept both and normalise back to strings.
+const textSearchParam = (fallback: string) =>
+  z
+    .union([z.string(), z.number()])
+    .transform(String)
+    .default(fallback)
+    .catch(fallback)
+
+// Older links carried a single sector or rating (or "All"), so a lone string
+// is lifted into a one-item list before validation.
+const listSearchParam = <T extends z.ZodType<string>>(item: T) =>
+  z.preprocess(
+    (value) =>
+      typeof value === 'string' ? (value === 'All' ? [] : [value]) : value,
+    z.array(item),
+  )
+    .default([])
+    .catch([])
+
+const stocksSearchSchema = z.object({
+  search: textSearchParam(defaultFilters.search),
+  sector: listSearchParam(z.string()),
+  rating: listSearchParam(z.enum(stockRatings)),
+  change: z
+    .enum(['any', 'positive', 'negative'])
+    .default(defaultFilters.change)
+    .catch(defaultFilters.change),
+  minPrice: textSearchParam(defaultFilters.minPrice),
+  maxPrice: textSearchParam(defaultFilters.maxPrice),
+  minCap: textSearchParam(defaultFilters.minCap),
+  maxCap: textSearchParam(defaultFilters.maxCap),
+  watchlist: textSearchParam(defaultFilters.watchlist),
+  sort: z.enum(stockSortColumns).optional().catch(undefined),
+  order: z.enum(['asc', 'desc']).default('asc').catch('asc'),
+  page: z.number().int().min(1).default(1).catch(1),
+  pageSize: z
+    .number()
+    .refine((size) => pageSizeOptions.includes(size))
+    .default(10)
+    .catch(10),
+  mode: z.enum(['table', 'heatmap']).default('table').catch('table'),
+})
+
+type StocksSearch = z.infer<typeof stocksSearchSchema>
+
+const defaultStocksSearch: StocksSearch = {
+  ...defaultFilters,
+  order: 'asc',
+  page: 1,
+  pageSize: 10,
+  mode: 'table',
 }
 
+const pickFilters = (search: StocksSearch): Filters => ({
+  search: search.search,
+  sector: search.sector,
+  rating: search.rating,
+  change: search.change,
+  minPrice: search.minPrice,
+  maxPrice: search.maxPrice,
+  minCap: search.minCap,
+  maxCap: search.maxCap,
+  watchlist: search.watchlist,
+})
+
 const numberFormatter = new Intl.NumberFormat('en-US', {
   maximumFractionDigits: 2,
 })
@@ -213,19 +383,73 @@ const currencyFormatter = new Intl.NumberFormat('en-US', {
 const formatPercent = (value: number) =>
   `${value > 0 ? '+' : ''}${value.toFixed(2)}%`
 
-const fetchStocks = async (filters: Filters) => {
+const magnitudes: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 }
+
+// Accepts plain numbers as well as shorthand such as 50B, 750M or 1.2T.
+// Empty input means "no bound"; anything unreadable comes back as NaN.
+const parseAmount = (value: string) => {
+  const text = value.trim().replace(/[$,\s]/g, '')
+  if (!text) return undefined
+
+  const match = /^(\d+(?:\.\d+)?|\.\d+)([kmbt])?$/i.exec(text)
+  if (!match) return Number.NaN
+
+  return Number(match[1]) * (match[2] ? magnitudes[match[2].toUpperCase()] : 1)
+}
+
+type RangeBounds = { min: number; max: number }
+
+const rangeError = (label: string, min: string, max: string) => {
+  const low = parseAmount(min)
+  const high = parseAmount(max)
+
+  if (Number.isNaN(low)) return `Couldn't read min ${label} "${min}".`
+  if (Number.isNaN(high)) return `Couldn't read max ${label} "${max}".`
+  if (low !== undefined && high !== undefined && low > high) {
+    return `Min ${label} is above max ${label}.`
+  }
+  return null
+}
+
+const filterRangeErrors = (filters: Filters) =>
+  [
+    rangeError('price', filters.minPrice, filters.maxPrice),
+    rangeError('market cap', filters.minCap, filters.maxCap),
+  ].filter((error) => error !== null)
+
+type StockAggregates = {
+  advancers: number
+  decliners: number
+  unchanged: number
+  capWeightedChange: number
+  totalVolume: number
+  totalMarketCap: number
+  sectors: { sector: string; count: number; marketCap: number }[]
+  ratings: Record<Stock['rating'], number>
+}
+
+type StocksView = Pick<StocksSearch, 'sort' | 'order' | 'page' | 'pageSize'>
+
+const fetchStocks = async (filters: Filters, view: StocksView, signal?: AbortSignal) => {
   const params = new URLSearchParams()
 
   if (filters.search) params.set('search', filters.search)
-  if (filters.sector !== 'All') params.set('sector', filters.sector)
-  if (filters.rating !== 'All') params.set('rating', filters.rating)
+  filters.sector.forEach((sector) => params.append('sector', sector))
+  filters.rating.forEach((rating) => params.append('rating', rating))
   if (filters.change !== 'any') params.set('change', filters.change)
-  if (filters.minPrice) params.set('minPrice', filters.minPrice)
-  if (filters.maxPrice) params.set('maxPrice', filters.maxPrice)
-  if (filters.minCap) params.set('minCap', filters.minCap)
-  if (filters.maxCap) params.set('maxCap', filters.maxCap)
+  for (const key of ['minPrice', 'maxPrice', 'minCap', 'maxCap'] as const) {
+    const amount = parseAmount(filters[key])
+    if (amount !== undefined && Number.isFinite(amount)) params.set(key, String(amount))
+  }
+  if (filters.watchlist !== 'All') params.set('watchlist', filters.watchlist)
+  if (view.sort) {
+    params.set('sort', view.sort)
+    params.set('order', view.order)
+  }
+  params.set('page', String(view.page))
+  params.set('pageSize', String(view.pageSize))
 
-  const response = await fetch(`/api/stocks?${params.toString()}`)
+  const response = await fetch(`/api/stocks?${params.toString()}`, { signal })
 
   if (!response.ok) {
     throw new Error('Unable to load stocks')
@@ -233,923 +457,7474 @@ const fetchStocks = async (filters: Filters) => {
 
   return (await response.json()) as {
     data: Stock[]
-    meta: { total: number; sectors: string[] }
+    meta: {
+      total: number
+      page: number
+      pageSize: number
+      pageCount: number
+      sectors: string[]
+      facets: {
+        sector: Record<string, number>
+        rating: Record<Stock['rating'], number>
+      }
+      bounds: {
+        price: RangeBounds
+        marketCap: RangeBounds
+      }
+      aggregates: StockAggregates
+    }
   }
 }
 
-function StocksPage() {
-  const [filters, setFilters] = useState<Filters>(defaultFilters)
-  const [sorting, setSorting] = useState<SortingState>([])
+type BondFilters = {
+  rating: Bond['rating'][]
+  currency: Bond['currency'][]
+  sector: string[]
+  minCoupon: string
+  maxCoupon: string
+  minMaturity: string
+  maxMaturity: string
+  minYield: string
+  maxYield: string
+  minDuration: string
+  maxDuration: string
+  callable: 'any' | 'callable' | 'non-callable'
+}
 
-  const query = useQuery({
-    queryKey: ['stocks', filters],
-    queryFn: () => fetchStocks(filters),
-  })
+const defaultBondFilters: BondFilters = {
+  rating: [],
+  currency: [],
+  sector: [],
+  minCoupon: '',
+  maxCoupon: '',
+  minMaturity: '',
+  maxMaturity: '',
+  minYield: '',
+  maxYield: '',
+  minDuration: '',
+  maxDuration: '',
+  callable: 'any',
+}
 
-  const data = query.data?.data ?? []
-  const sectors = query.data?.meta.sectors ?? []
+const bondRatings: Bond['rating'][] = ['AAA', 'AA', 'A', 'BBB', 'BB']
+const bondCurrencies: Bond['currency'][] = ['USD', 'EUR']
+
+const bondSortColumns = [
+  'name',
+  'rating',
+  'coupon',
+  'maturity',
+  'yieldToMaturity',
+  'duration',
+  'price',
+  'currency',
+  'sector',
+  'nextCall',
+  'size',
+] as const
+
+// Screener state lives in the About route's search params so a screened view
+// can be shared as a link.
+const bondsSearchSchema = z.object({
+  rating: listSearchParam(z.enum(bondRatings)),
+  currency: listSearchParam(z.enum(bondCurrencies)),
+  sector: listSearchParam(z.string()),
+  minCoupon: textSearchParam(defaultBondFilters.minCoupon),
+  maxCoupon: textSearchParam(defaultBondFilters.maxCoupon),
+  minMaturity: textSearchParam(defaultBondFilters.minMaturity),
+  maxMaturity: textSearchParam(defaultBondFilters.maxMaturity),
+  minYield: textSearchParam(defaultBondFilters.minYield),
+  maxYield: textSearchParam(defaultBondFilters.maxYield),
+  minDuration: textSearchParam(defaultBondFilters.minDuration),
+  maxDuration: textSearchParam(defaultBondFilters.maxDuration),
+  callable: z
+    .enum(['any', 'callable', 'non-callable'])
+    .default(defaultBondFilters.callable)
+    .catch(defaultBondFilters.callable),
+  sort: z.enum(bondSortColumns).optional().catch(undefined),
+  order: z.enum(['asc', 'desc']).default('asc').catch('asc'),
+  page: z.number().int().min(1).default(1).catch(1),
+  pageSize: z
+    .number()
+    .refine((size) => pageSizeOptions.includes(size))
+    .default(10)
+    .catch(10),
+})
 
-  const columns = useMemo<ColumnDef<Stock>[]>(
-    () => [
-      {
-        accessorKey: 'ticker',
-        header: 'Ticker',
-        cell: (info) => <span className="ticker">{info.getValue<string>()}</span>,
-      },
-      {
-        accessorKey: 'company',
-        header: 'Company',
-        cell: (info) => <span className="company">{info.getValue<string>()}</span>,
-      },
-      {
-        accessorKey: 'sector',
-        header: 'Sector',
-        cell: (info) => <span className="pill">{info.getValue<string>()}</span>,
-      },
-      {
-        accessorKey: 'price',
-        header: 'Price',
-        cell: (info) => currencyFormatter.format(info.getValue<number>()),
-      },
-      {
-        accessorKey: 'changePercent',
-        header: 'Change',
-        cell: (info) => {
-          const value = info.getValue<number>()
-          return (
-            <span className={value >= 0 ? 'trend up' : 'trend down'}>
-              {formatPercent(value)}
-            </span>
-          )
-        },
-      },
-      {
-        accessorKey: 'volume',
-        header: 'Volume',
-        cell: (info) => compactFormatter.format(info.getValue<number>()),
-      },
-      {
-        accessorKey: 'marketCap',
-        header: 'Market Cap',
-        cell: (info) => `$${compactFormatter.format(info.getValue<number>())}`,
-      },
-      {
-        accessorKey: 'rating',
-        header: 'Rating',
-        cell: (info) => <span className="rating">{info.getValue<string>()}</span>,
-      },
-      {
-        accessorKey: 'lastUpdated',
-        header: 'Updated',
-        cell: (info) =>
-          new Date(info.getValue<string>()).toLocaleTimeString('en-US', {
-            hour: '2-digit',
-            minute: '2-digit',
-          }),
-      },
-    ],
-    [],
-  )
+type BondsSearch = z.infer<typeof bondsSearchSchema>
 
-  const table = useReactTable({
-    data,
-    columns,
-    state: {
-      sorting,
-    },
-    onSortingChange: setSorting,
-    getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-  })
+const defaultBondsSearch: BondsSearch = {
+  ...defaultBondFilters,
+  order: 'asc',
+  page: 1,
+  pageSize: 10,
+}
 
-  const pageCount = Math.max(1, table.getPageCount())
+const pickBondFilters = (search: BondsSearch): BondFilters => ({
+  rating: search.rating,
+  currency: search.currency,
+  sector: search.sector,
+  minCoupon: search.minCoupon,
+  maxCoupon: search.maxCoupon,
+  minMaturity: search.minMaturity,
+  maxMaturity: search.maxMaturity,
+  minYield: search.minYield,
+  maxYield: search.maxYield,
+  minDuration: search.minDuration,
+  maxDuration: search.maxDuration,
+  callable: search.callable,
+})
 
-  const updateFilter = (key: keyof Filters, value: string) => {
-    setFilters((prev) => ({ ...prev, [key]: value }))
+const bondRangeKeys = [
+  ['coupon', 'minCoupon', 'maxCoupon'],
+  ['maturity year', 'minMaturity', 'maxMaturity'],
+  ['yield', 'minYield', 'maxYield'],
+  ['duration', 'minDuration', 'maxDuration'],
+] as const
+
+const bondRangeErrors = (filters: BondFilters) =>
+  bondRangeKeys
+    .map(([label, min, max]) => rangeError(label, filters[min], filters[max]))
+    .filter((error) => error !== null)
+
+type BondsView = Pick<BondsSearch, 'sort' | 'order' | 'page' | 'pageSize'>
+
+const fetchBonds = async (filters: BondFilters, view: BondsView, signal?: AbortSignal) => {
+  const params = new URLSearchParams({ view: 'full' })
+
+  filters.rating.forEach((rating) => params.append('rating', rating))
+  filters.currency.forEach((currency) => params.append('currency', currency))
+  filters.sector.forEach((sector) => params.append('sector', sector))
+  for (const [, min, max] of bondRangeKeys) {
+    for (const key of [min, max]) {
+      const amount = parseAmount(filters[key])
+      if (amount !== undefined && Number.isFinite(amount)) params.set(key, String(amount))
+    }
   }
+  if (filters.callable !== 'any') params.set('callable', filters.callable)
+  if (view.sort) {
+    params.set('sort', view.sort)
+    params.set('order', view.order)
+  }
+  params.set('page', String(view.page))
+  params.set('pageSize', String(view.pageSize))
 
-  const resetFilters = () => {
-    setFilters(defaultFilters)
+  const response = await fetch(`/api/bonds?${params.toString()}`, { signal })
+
+  if (!response.ok) {
+    throw new Error('Unable to load bonds')
   }
 
-  return (
-    <section className="stocks-layout">
-      <aside className="filters-panel">
-        <div className="filters-header">
-          <div>
-            <p className="eyebrow">Market pulse</p>
-            <h1>Track the stocks you care about.</h1>
-          </div>
-          <button className="ghost-btn" onClick={resetFilters}>
-            Reset filters
-          </button>
-        </div>
+  return (await response.json()) as {
+    data: Bond[]
+    meta: {
+      total: number
+      page: number
+      pageSize: number
+      pageCount: number
+      sectors: string[]
+      bounds: {
+        coupon: RangeBounds
+        maturity: RangeBounds
+        yieldToMaturity: RangeBounds
+        duration: RangeBounds
+      }
+    }
+  }
+}
 
-        <div className="filter-group">
-          <label htmlFor="search">Search</label>
-          <input
-            id="search"
-            type="search"
-            placeholder="Ticker or company"
-            value={filters.search}
-            onChange={(event) => updateFilter('search', event.target.value)}
-          />
-        </div>
+const curveView: BondsView = { sort: 'maturity', order: 'asc', page: 1, pageSize: 500 }
 
-        <div className="filter-group">
-          <label htmlFor="sector">Sector</label>
-          <select
-            id="sector"
-            value={filters.sector}
-            onChange={(event) => updateFilter('sector', event.target.value)}
-          >
-            <option value="All">All sectors</option>
-            {sectors.map((sector) => (
-              <option key={sector} value={sector}>
-                {sector}
-              </option>
-            ))}
-          </select>
-        </div>
+const curveSplits = ['currency', 'rating'] as const
 
-        <div className="filter-group">
-          <label htmlFor="rating">Analyst rating</label>
-          <select
-            id="rating"
-            value={filters.rating}
-            onChange={(event) => updateFilter('rating', event.target.value)}
-          >
-            <option value="All">All ratings</option>
-            <option value="Buy">Buy</option>
-            <option value="Hold">Hold</option>
-            <option value="Sell">Sell</option>
-          </select>
-        </div>
+const yieldCurveSearchSchema = z.object({
+  split: z.enum(curveSplits).default('currency').catch('currency'),
+})
 
-        <div className="filter-group">
-          <label htmlFor="change">Daily change</label>
-          <select
-            id="change"
-            value={filters.change}
-            onChange={(event) =>
-              updateFilter('change', event.target.value as Filters['change'])
-            }
-          >
-            <option value="any">Any</option>
-            <option value="positive">Positive</option>
-            <option value="negative">Negative</option>
-          </select>
-        </div>
+type StockSuggestion = Pick<Stock, 'ticker' | 'company' | 'sector' | 'price'> & {
+  matchedOn: 'ticker' | 'company'
+}
 
-        <div className="filter-group">
-          <label>Price range</label>
-          <div className="range-row">
-            <input
-              type="number"
-              inputMode="decimal"
-              placeholder="Min"
-              value={filters.minPrice}
-              onChange={(event) => updateFilter('minPrice', event.target.value)}
-            />
-            <input
-              type="number"
-              inputMode="decimal"
-              placeholder="Max"
-              value={filters.maxPrice}
-              onChange={(event) => updateFilter('maxPrice', event.target.value)}
-            />
-          </div>
-        </div>
+const SEARCH_DEBOUNCE = 300
 
-        <div className="filter-group">
-          <label>Market cap (USD)</label>
-          <div className="range-row">
-            <input
-              type="number"
-              inputMode="decimal"
-              placeholder="Min"
-              value={filters.minCap}
-              onChange={(event) => updateFilter('minCap', event.target.value)}
-            />
-            <input
-              type="number"
-              inputMode="decimal"
-              placeholder="Max"
-              value={filters.maxCap}
-              onChange={(event) => updateFilter('maxCap', event.target.value)}
-            />
-          </div>
-          <p className="helper">Tip: 50B = 50000000000</p>
-        </div>
+const fetchStockSuggestions = async (query: string, signal?: AbortSignal) => {
+  const response = await fetch(`/api/stocks/suggest?q=${encodeURIComponent(query)}`, {
+    signal,
+  })
 
-        <div className="filters-summary">
-          <div>
-            <p className="summary-label">Matches</p>
-            <p className="summary-value">
-              {query.isLoading ? 'Loading…' : numberFormatter.format(data.length)}
-            </p>
-          </div>
-          <div>
-            <p className="summary-label">Signal mix</p>
-            <p className="summary-value">Momentum, value, stability</p>
-          </div>
-        </div>
-      </aside>
+  if (!response.ok) {
+    throw new Error('Unable to load suggestions')
+  }
 
-      <div className="table-panel">
-        <div className="table-card">
-          <div className="table-toolbar">
-            <div>
-              <p className="eyebrow">Live board</p>
-              <h2>Active watchlist</h2>
-              <p className="lead">
-                {query.isError
-                  ? 'Unable to load mock data.'
-                  : 'Mock data powered by MSW + TanStack Query.'}
-              </p>
-            </div>
-            <div className="table-meta">
-              <span>
-                Updated {new Date().toLocaleTimeString('en-US', {
-                  hour: '2-digit',
-                  minute: '2-digit',
-                })}
-              </span>
-              <span>{numberFormatter.format(data.length)} tickers</span>
-            </div>
-          </div>
+  return (await response.json()) as { data: StockSuggestion[]; meta: { total: number } }
+}
 
-          <div className="table-wrapper">
-            <table className="stocks-table">
-              <thead>
-                {table.getHeaderGroups().map((headerGroup) => (
-                  <tr key={headerGroup.id}>
-                    {headerGroup.headers.map((header) => (
-                      <th key={header.id}>
-                        {header.isPlaceholder ? null : (
-                          <button
-                            className="sort-btn"
-                            onClick={header.column.getToggleSortingHandler()}
-                          >
-                            {flexRender(
-                              header.column.columnDef.header,
-                              header.getContext(),
-                            )}
-                            {{
-                              asc: ' ↑',
-                              desc: ' ↓',
-                            }[header.column.getIsSorted() as string] ?? ''}
-                          </button>
-                        )}
-                      </th>
-                    ))}
-                  </tr>
-                ))}
-              </thead>
-              <tbody>
-                {query.isLoading ? (
-                  <tr>
-                    <td colSpan={columns.length} className="empty-state">
-                      Loading market data…
-                    </td>
-                  </tr>
-                ) : data.length === 0 ? (
-                  <tr>
-                    <td colSpan={columns.length} className="empty-state">
-                      No tickers match those filters.
-                    </td>
-                  </tr>
-                ) : (
-                  table.getRowModel().rows.map((row) => (
-                    <tr key={row.id}>
-                      {row.getVisibleCells().map((cell) => (
-                        <td key={cell.id}>
-                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                        </td>
-                      ))}
-                    </tr>
-                  ))
-                )}
-              </tbody>
-            </table>
-          </div>
+type HistoryRange = '1D' | '1M' | '1Y'
 
-          <div className="table-footer">
-            <div className="pagination">
-              <button
-                className="ghost-btn"
-                onClick={() => table.previousPage()}
-                disabled={!table.getCanPreviousPage()}
-              >
-                Previous
-              </button>
-              <span>
-                Page {table.getState().pagination.pageIndex + 1} of{' '}
-                {pageCount}
-              </span>
-              <button
-                className="ghost-btn"
-                onClick={() => table.nextPage()}
-                disabled={!table.getCanNextPage()}
-              >
-                Next
-              </button>
-            </div>
-            <div className="page-size">
-              <span>Rows</span>
-              <select
-                value={table.getState().pagination.pageSize}
-                onChange={(event) => table.setPageSize(Number(event.target.value))}
-              >
-                {[5, 10, 15, 20].map((size) => (
-                  <option key={size} value={size}>
-                    {size}
-                  </option>
-                ))}
-              </select>
-            </div>
-          </div>
-        </div>
-      </div>
-    </section>
-  )
+type PriceBar = {
+  time: string
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
 }
 
-function ServicesPage() {
-  const servicesSchema = z.object({
-    clientName: z.string().min(1, 'Client name is required'),
-    email: z.string().email('Invalid email address'),
-    firm: z.string().min(1, 'Firm name is required'),
-    portfolioSize: z.string().min(1, 'Portfolio must be greater than 1'),
-    mandateType: z.enum(['discretionary', 'advisory', 'execution-only'], 'Select a mandate type'),
-    riskProfile: z.enum(['conservative', 'moderate', 'aggressive'], 'Select a risk profile'),
-    investmentHorizon: z.enum(['short', 'medium', 'long'], 'Select investment horizon'),
-    assetClass: z.enum(['equities', 'fixed-income', 'alternatives', 'multi-asset'], 'Select an asset class'),
-    instrument: z.string().min(1, 'Select an instrument'),
-    notes: z.string().max(500, 'Notes must be 500 characters or less').optional(),
-  })
+const historyRanges: HistoryRange[] = ['1D', '1M', '1Y']
 
-  type ServicesFormValues = z.infer<typeof servicesSchema>
+const fetchStock = async (ticker: string) => {
+  const response = await fetch(`/api/stocks/${ticker}`)
 
-  const briefQuery = useQuery({
-    queryKey: ['service-brief'],
-    queryFn: fetchServiceBrief,
-    initialData: { data: {} as ServiceBrief },
-    staleTime: Infinity,
-  })
+  if (!response.ok) {
+    throw new Error('Unable to load stock')
+  }
 
-  const {
-    register,
-    handleSubmit,
-    control,
-    reset,
-    formState: { errors, isSubmitting },
-  } = useForm<ServicesFormValues>({
-    resolver: zodResolver(servicesSchema),
-    defaultValues: {
-      clientName: '',
-      email: undefined,
-      firm: '',
-      portfolioSize: '0',
-      mandateType: undefined,
-      riskProfile: undefined,
-      investmentHorizon: undefined,
-      assetClass: undefined,
-      instrument: '',
-      notes: undefined,
-    },
-  })
+  return (await response.json()) as { data: Stock }
+}
 
-  const assetClass = useWatch({ control, name: 'assetClass' })
-  const clientName = useWatch({ control, name: 'clientName' })
-  const email = useWatch({ control, name: 'email' })
+const fetchStockHistory = async (ticker: string, range: HistoryRange) => {
+  const response = await fetch(`/api/stocks/${ticker}/history?range=${range}`)
 
-  const instrumentsQuery = useQuery({
-    queryKey: ['service-instruments'],
-    queryFn: () => fetchInstruments(assetClass!),
+  if (!response.ok) {
+    throw new Error('Unable to load price history')
+  }
+
+  return (await response.json()) as {
+    data: PriceBar[]
+    meta: { ticker: string; range: HistoryRange; total: number }
+  }
+}
+
+type StocksResponse = Awaited<ReturnType<typeof fetchStocks>>
+
+type PriceTick = Pick<
+  Stock,
+  'ticker' | 'price' | 'changePercent' | 'volume' | 'lastUpdated'
+>
+
+type StreamStatus = 'connecting' | 'live' | 'offline'
+
+const FLASH_DURATION = 900
+
+const formatClockTime = (value: string | number) =>
+  new Date(value).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
   })
 
+function useLivePrices(filters: Filters) {
+  const queryClient = useQueryClient()
+  const filtersRef = useRef(filters)
+  const [flashes, setFlashes] = useState<Record<string, 'up' | 'down'>>({})
+  const [status, setStatus] = useState<StreamStatus>('connecting')
+  const [lastTickAt, setLastTickAt] = useState<string | null>(null)
+
   useEffect(() => {
-    if (briefQuery.data?.data) {
-      reset({
-        clientName: briefQuery.data.data.clientName,
-        email: briefQuery.data.data.email,
-        firm: briefQuery.data.data.firm,
-        portfolioSize: String(briefQuery.data.data.portfolioSize),
+    filtersRef.current = filters
+  }, [filters])
+
+  useEffect(() => {
+    const source = new EventSource('/api/stocks/stream')
+    const timers = new Map<string, ReturnType<typeof setTimeout>>()
+
+    const clearFlash = (ticker: string) => {
+      setFlashes((prev) => {
+        const next = { ...prev }
+        delete next[ticker]
+        return next
       })
+      timers.delete(ticker)
     }
-  }, [briefQuery.data.data, reset])
 
-  const onSubmit = (data: ServicesFormValues) => {
-    console.log('Form submitted:', data)
+    const handleTick = (event: MessageEvent<string>) => {
+      const ticks = JSON.parse(event.data) as PriceTick[]
+      const ticksByTicker = new Map(ticks.map((tick) => [tick.ticker, tick]))
+      const moved: Record<string, 'up' | 'down'> = {}
+
+      queryClient.setQueriesData<StocksResponse>(
+        { queryKey: ['stocks', filtersRef.current] },
+        (old) => {
+          if (!old) return old
+
+          return {
+            ...old,
+            data: old.data.map((stock) => {
+              const tick = ticksByTicker.get(stock.ticker)
+              if (!tick) return stock
+              if (tick.price !== stock.price) {
+                moved[stock.ticker] = tick.price > stock.price ? 'up' : 'down'
+              }
+              return { ...stock, ...tick }
+            }),
+          }
+        },
+      )
+
+      setStatus('live')
+      setLastTickAt(ticks[0]?.lastUpdated ?? new Date().toISOString())
+      setFlashes((prev) => ({ ...prev, ...moved }))
+
+      Object.keys(moved).forEach((ticker) => {
+        clearTimeout(timers.get(ticker))
+        timers.set(ticker, setTimeout(() => clearFlash(ticker), FLASH_DURATION))
+      })
+    }
+
+    source.addEventListener('open', () => setStatus('live'))
+    source.addEventListener('error', () =>
+      setStatus(source.readyState === EventSource.CLOSED ? 'offline' : 'connecting'),
+    )
+    source.addEventListener('tick', handleTick)
+
+    return () => {
+      source.close()
+      timers.forEach((timer) => clearTimeout(timer))
+    }
+  }, [queryClient])
+
+  return { flashes, status, lastTickAt }
+}
+
+const flashingColumns = new Set(['price', 'changePercent', 'lastUpdated'])
+
+type SavedScreen = {
+  id: string
+  name: string
+  filters: Filters
+  createdAt: string
+  updatedAt: string
+}
+
+const fetchScreens = async () => {
+  const response = await fetch('/api/screens')
+
+  if (!response.ok) {
+    throw new Error('Unable to load saved screens')
   }
 
-  const instruments = instrumentsQuery.data?.data ?? []
-  const brief = briefQuery.data?.data
+  return (await response.json()) as { data: SavedScreen[] }
+}
+
+const createScreen = async (screen: Pick<SavedScreen, 'name' | 'filters'>) => {
+  const response = await fetch('/api/screens', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(screen),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to save screen')
+  }
+
+  return (await response.json()) as { data: SavedScreen }
+}
+
+const updateScreen = async ({
+  id,
+  ...changes
+}: Pick<SavedScreen, 'id'> & Partial<Pick<SavedScreen, 'name' | 'filters'>>) => {
+  const response = await fetch(`/api/screens/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to update screen')
+  }
+
+  return (await response.json()) as { data: SavedScreen }
+}
+
+const deleteScreen = async (id: string) => {
+  const response = await fetch(`/api/screens/${id}`, { method: 'DELETE' })
+
+  if (!response.ok) {
+    throw new Error('Unable to delete screen')
+  }
+}
+
+function SavedScreensPanel({
+  filters,
+  onApply,
+}: {
+  filters: Filters
+  onApply: (filters: Filters) => void
+}) {
+  const queryClient = useQueryClient()
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+
+  const screensQuery = useQuery({
+    queryKey: ['screens'],
+    queryFn: fetchScreens,
+  })
+
+  const invalidateScreens = () => queryClient.invalidateQueries({ queryKey: ['screens'] })
+
+  const createMutation = useMutation({
+    mutationFn: createScreen,
+    onSuccess: invalidateScreens,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: updateScreen,
+    onSuccess: invalidateScreens,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteScreen,
+    onSuccess: invalidateScreens,
+  })
+
+  const screens = screensQuery.data?.data ?? []
+  const mutationError =
+    createMutation.error ?? updateMutation.error ?? deleteMutation.error
+
+  const saveCurrent = () => {
+    const name = newName.trim()
+    if (!name) return
+    createMutation.mutate({ name, filters }, { onSuccess: () => setNewName('') })
+  }
+
+  const startRename = (screen: SavedScreen) => {
+    setEditingId(screen.id)
+    setDraftName(screen.name)
+  }
+
+  const commitRename = (screen: SavedScreen) => {
+    const name = draftName.trim()
+    setEditingId(null)
+    if (!name || name === screen.name) return
+    updateMutation.mutate({ id: screen.id, name })
+  }
+
+  const duplicate = (screen: SavedScreen) => {
+    createMutation.mutate({ name: `${screen.name} (copy)`, filters: screen.filters })
+  }
 
   return (
-    <section className="services-layout">
-      <div className="services-intro">
-        <p className="eyebrow">Advisory services</p>
-        <h1>Open a mandate with us.</h1>
-        <p className="lead">
-          Configure your portfolio strategy and investment preferences. Our team will
-          reach out within one business day to finalize the engagement.
-        </p>
-        <p className="lead">Current client: {clientName} ({email || 'no email'})</p>
-        <div className="market-summary">
-          <div className="summary-tile">
-            <p className="panel-label">AUM</p>
-            <p className="summary-metric">$4.2B</p>
-          </div>
-          <div className="summary-tile">
-            <p className="panel-label">Clients</p>
-            <p className="summary-metric">1,847</p>
-          </div>
-          <div className="summary-tile">
-            <p className="panel-label">Avg. return</p>
-            <p className="summary-metric">+12.4%</p>
-          </div>
-        </div>
+    <div className="filter-group saved-screens">
+      <label htmlFor="screen-name">Saved screens</label>
+      <div className="screen-save-row">
+        <input
+          id="screen-name"
+          type="text"
+          placeholder="Name this screen"
+          value={newName}
+          onChange={(event) => setNewName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') saveCurrent()
+          }}
+        />
+        <button
+          className="ghost-btn"
+          onClick={saveCurrent}
+          disabled={!newName.trim() || createMutation.isPending}
+        >
+          Save
+        </button>
       </div>
-      <div className="services-form-card">
-        {briefQuery.isLoading ? (
-          <div className="form-loading">
-            <p className="panel-label">Loading</p>
-            <h3>Fetching your profile...</h3>
-          </div>
-        ) : briefQuery.isError ? (
-          <form onSubmit={handleSubmit(onSubmit)} className="services-form">
-            <div className="form-header">
-              <div>
-                <p className="panel-label">Mandate setup</p>
-                <h2>Client onboarding</h2>
-              </div>
-            </div>
-            <div className="form-grid">
-              <div className="form-group">
-                <label htmlFor="clientName">Client name</label>
-                <input
-                  id="clientName"
-                  type="text"
-                  {...register('clientName')}
-                  className={errors.clientName && !isSubmitting ? 'error' : ''}
-                />
-                {errors.clientName && !isSubmitting && (
-                  <p className="error-text">{errors.clientName.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="email">Email</label>
-                <input
-                  id="email"
-                  type="email"
-                  {...register('email')}
-                  className={errors.email && !isSubmitting ? 'error' : ''}
-                />
-                {errors.email && !isSubmitting && (
-                  <p className="error-text">{errors.email.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="firm">Firm</label>
+      {screensQuery.isLoading ? (
+        <p className="helper">Loading screens…</p>
+      ) : screensQuery.isError ? (
+        <p className="helper">Unable to load saved screens.</p>
+      ) : screens.length === 0 ? (
+        <p className="helper">Save the current filters to reuse them later.</p>
+      ) : (
+        <ul className="screen-list">
+          {screens.map((screen) => (
+            <li key={screen.id} className="screen-item">
+              {editingId === screen.id ? (
                 <input
-                  id="firm"
+                  aria-label={`Rename ${screen.name}`}
                   type="text"
-                  {...register('firm')}
-                  className={errors.firm && !isSubmitting ? 'error' : ''}
+                  value={draftName}
+                  autoFocus
+                  onChange={(event) => setDraftName(event.target.value)}
+                  onBlur={() => commitRename(screen)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') commitRename(screen)
+                    if (event.key === 'Escape') setEditingId(null)
+                  }}
                 />
-                {errors.firm && !isSubmitting && (
-                  <p className="error-text">{errors.firm.message}</p>
-                )}
+              ) : (
+                <button
+                  className="screen-name"
+                  onClick={() => onApply(screen.filters)}
+                  title="Apply screen"
+                >
+                  {screen.name}
+                </button>
+              )}
+              <div className="screen-actions">
+                <button onClick={() => startRename(screen)}>Rename</button>
+                <button onClick={() => duplicate(screen)}>Duplicate</button>
+                <button
+                  onClick={() => deleteMutation.mutate(screen.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  Delete
+                </button>
               </div>
-              <div className="form-group">
-                <label htmlFor="portfolioSize">Portfolio size (USD)</label>
-                <input
-                  id="portfolioSize"
-                  type="text"
-                  {...register('portfolioSize')}
-                  className={errors.portfolioSize && !isSubmitting ? 'error' : ''}
-                />
-                {errors.portfolioSize && !isSubmitting && (
-                  <p className="error-text">{errors.portfolioSize.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="mandateType">Mandate type</label>
-                <select
-                  id="mandateType"
-                  {...register('mandateType')}
-                  className={errors.mandateType && !isSubmitting ? 'error' : ''}
-                >
-                  <option value="">Select mandate</option>
-                  <option value="discretionary">Discretionary</option>
-                  <option value="advisory">Advisory</option>
-                  <option value="execution-only">Execution only</option>
-                </select>
-                {errors.mandateType && !isSubmitting && (
-                  <p className="error-text">{errors.mandateType.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="riskProfile">Risk profile</label>
-                <select
-                  id="riskProfile"
-                  {...register('riskProfile')}
-                  className={errors.riskProfile && !isSubmitting ? 'error' : ''}
-                >
-                  <option value="">Select risk</option>
-                  <option value="conservative">Conservative</option>
-                  <option value="moderate">Moderate</option>
-                  <option value="aggressive">Aggressive</option>
-                </select>
-                {errors.riskProfile && !isSubmitting && (
-                  <p className="error-text">{errors.riskProfile.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="investmentHorizon">Investment horizon</label>
-                <select
-                  id="investmentHorizon"
-                  {...register('investmentHorizon')}
-                  className={errors.investmentHorizon && !isSubmitting ? 'error' : ''}
-                >
-                  <option value="">Select horizon</option>
-                  <option value="short">Short (0-3 years)</option>
-                  <option value="medium">Medium (3-7 years)</option>
-                  <option value="long">Long (7+ years)</option>
-                </select>
-                {errors.investmentHorizon && !isSubmitting && (
-                  <p className="error-text">{errors.investmentHorizon.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="assetClass">Asset class</label>
-                <select
-                  id="assetClass"
-                  {...register('assetClass')}
-                  className={errors.assetClass && !isSubmitting ? 'error' : ''}
-                >
-                  <option value="">Select asset class</option>
-                  <option value="equities">Equities</option>
-                  <option value="fixed-income">Fixed income</option>
-                  <option value="alternatives">Alternatives</option>
-                  <option value="multi-asset">Multi-asset</option>
-                </select>
-                {errors.assetClass && !isSubmitting && (
-                  <p className="error-text">{errors.assetClass.message}</p>
-                )}
-              </div>
-              <div className="form-group full-width">
-                <label htmlFor="instrument">Instrument</label>
-                <select
-                  id="instrument"
-                  {...register('instrument')}
-                  disabled={instrumentsQuery.isFetching}
-                  className={errors.instrument && !isSubmitting ? 'error' : ''}
-                >
-                  <option value="">
-                    {instrumentsQuery.isFetching ? 'Loading...' : 'Select instrument'}
-                  </option>
-                  {instruments.map((inst, index) => (
-                    <option key={index} value={inst.name}>
-                      {inst.name} ({inst.ticker})
-                    </option>
-                  ))}
-                </select>
-                {errors.instrument && !isSubmitting && (
-                  <p className="error-text">{errors.instrument.message}</p>
-                )}
-              </div>
-              <div className="form-group full-width">
-                <label htmlFor="notes">Notes (optional)</label>
-                <textarea
-                  id="notes"
-                  rows={3}
-                  {...register('notes')}
-                  className={errors.notes && !isSubmitting ? 'error' : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+      {mutationError && <p className="error-text">{mutationError.message}</p>}
+    </div>
+  )
+}
+
+type Watchlist = {
+  id: string
+  name: string
+  tickers: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+const fetchWatchlists = async () => {
+  const response = await fetch('/api/watchlists')
+
+  if (!response.ok) {
+    throw new Error('Unable to load watchlists')
+  }
+
+  return (await response.json()) as { data: Watchlist[] }
+}
+
+const createWatchlist = async (name: string) => {
+  const response = await fetch('/api/watchlists', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to create watchlist')
+  }
+
+  return (await response.json()) as { data: Watchlist }
+}
+
+const renameWatchlist = async ({ id, name }: Pick<Watchlist, 'id' | 'name'>) => {
+  const response = await fetch(`/api/watchlists/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to rename watchlist')
+  }
+
+  return (await response.json()) as { data: Watchlist }
+}
+
+const deleteWatchlist = async (id: string) => {
+  const response = await fetch(`/api/watchlists/${id}`, { method: 'DELETE' })
+
+  if (!response.ok) {
+    throw new Error('Unable to delete watchlist')
+  }
+}
+
+const addToWatchlist = async ({ id, tickers }: { id: string; tickers: string[] }) => {
+  const response = await fetch(`/api/watchlists/${id}/tickers`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tickers }),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to add to watchlist')
+  }
+
+  return (await response.json()) as { data: Watchlist }
+}
+
+const removeFromWatchlist = async ({ id, ticker }: { id: string; ticker: string }) => {
+  const response = await fetch(`/api/watchlists/${id}/tickers/${ticker}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to remove from watchlist')
+  }
+
+  return (await response.json()) as { data: Watchlist }
+}
+
+function WatchlistMenu({ ticker }: { ticker: string }) {
+  const queryClient = useQueryClient()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [open, setOpen] = useState(false)
+
+  const watchlistsQuery = useQuery({
+    queryKey: ['watchlists'],
+    queryFn: fetchWatchlists,
+  })
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['watchlists'] })
+    queryClient.invalidateQueries({ queryKey: ['stocks'] })
+  }
+
+  const addMutation = useMutation({ mutationFn: addToWatchlist, onSuccess })
+  const removeMutation = useMutation({ mutationFn: removeFromWatchlist, onSuccess })
+
+  useEffect(() => {
+    if (!open) return
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [open])
+
+  const watchlists = watchlistsQuery.data?.data ?? []
+  const watched = watchlists.some((watchlist) => watchlist.tickers.includes(ticker))
+
+  const toggle = (watchlist: Watchlist) => {
+    if (watchlist.tickers.includes(ticker)) {
+      removeMutation.mutate({ id: watchlist.id, ticker })
+    } else {
+      addMutation.mutate({ id: watchlist.id, tickers: [ticker] })
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="watch-menu"
+      onClick={(event) => event.stopPropagation()}
+    >
+      <button
+        className={watched ? 'watch-star active' : 'watch-star'}
+        aria-label={`Watchlists for ${ticker}`}
+        aria-expanded={open}
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        {watched ? '★' : '☆'}
+      </button>
+      {open && (
+        <div className="watch-popover" role="menu">
+          <p className="panel-label">Add {ticker} to</p>
+          {watchlists.length === 0 ? (
+            <p className="helper">Create a watchlist from the filters panel.</p>
+          ) : (
+            watchlists.map((watchlist) => (
+              <label key={watchlist.id} className="watch-option">
+                <input
+                  type="checkbox"
+                  checked={watchlist.tickers.includes(ticker)}
+                  disabled={addMutation.isPending || removeMutation.isPending}
+                  onChange={() => toggle(watchlist)}
                 />
-                {errors.notes && !isSubmitting && (
-                  <p className="error-text">{errors.notes.message}</p>
-                )}
-              </div>
-            </div>
-            <div className="form-actions">
-              <button 
-                type="submit" 
-                className="primary-btn" 
-                disabled={isSubmitting || instrumentsQuery.isFetching}
+                {watchlist.name}
+              </label>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function BulkWatchlistMenu({ tickers }: { tickers: string[] }) {
+  const queryClient = useQueryClient()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [open, setOpen] = useState(false)
+
+  const watchlistsQuery = useQuery({
+    queryKey: ['watchlists'],
+    queryFn: fetchWatchlists,
+  })
+
+  const addMutation = useMutation({
+    mutationFn: addToWatchlist,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['watchlists'] })
+      queryClient.invalidateQueries({ queryKey: ['stocks'] })
+      setOpen(false)
+    },
+  })
+
+  useEffect(() => {
+    if (!open) return
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [open])
+
+  const watchlists = watchlistsQuery.data?.data ?? []
+
+  return (
+    <div ref={containerRef} className="toolbar-menu">
+      <button
+        className="ghost-btn"
+        aria-expanded={open}
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        {addMutation.isPending ? 'Adding…' : 'Add to watchlist'}
+      </button>
+      {open && (
+        <div className="watch-popover toolbar-popover" role="menu">
+          <p className="panel-label">Add {tickers.length} tickers to</p>
+          {watchlists.length === 0 ? (
+            <p className="helper">Create a watchlist from the filters panel.</p>
+          ) : (
+            watchlists.map((watchlist) => (
+              <button
+                key={watchlist.id}
+                className="menu-item"
+                disabled={addMutation.isPending}
+                onClick={() => addMutation.mutate({ id: watchlist.id, tickers })}
               >
-                {isSubmitting ? 'Submitting...' : 'Submit mandate'}
+                {watchlist.name}
+              </button>
+            ))
+          )}
+          {addMutation.isError && <p className="error-text">{addMutation.error.message}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function WatchlistPanel({
+  value,
+  onChange,
+}: {
+  value: string
+  onChange: (watchlistId: string) => void
+}) {
+  const queryClient = useQueryClient()
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+
+  const watchlistsQuery = useQuery({
+    queryKey: ['watchlists'],
+    queryFn: fetchWatchlists,
+  })
+
+  const invalidateWatchlists = () =>
+    queryClient.invalidateQueries({ queryKey: ['watchlists'] })
+
+  const createMutation = useMutation({
+    mutationFn: createWatchlist,
+    onSuccess: invalidateWatchlists,
+  })
+
+  const renameMutation = useMutation({
+    mutationFn: renameWatchlist,
+    onSuccess: invalidateWatchlists,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWatchlist,
+    onSuccess: (_, id) => {
+      if (id === value) onChange(defaultFilters.watchlist)
+      return invalidateWatchlists()
+    },
+  })
+
+  const watchlists = watchlistsQuery.data?.data ?? []
+  const mutationError =
+    createMutation.error ?? renameMutation.error ?? deleteMutation.error
+
+  const create = () => {
+    const name = newName.trim()
+    if (!name) return
+    createMutation.mutate(name, { onSuccess: () => setNewName('') })
+  }
+
+  const commitRename = (watchlist: Watchlist) => {
+    const name = draftName.trim()
+    setEditingId(null)
+    if (!name || name === watchlist.name) return
+    renameMutation.mutate({ id: watchlist.id, name })
+  }
+
+  return (
+    <div className="filter-group">
+      <label htmlFor="watchlist">Watchlist</label>
+      <select
+        id="watchlist"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+      >
+        <option value="All">All tickers</option>
+        {watchlists.map((watchlist) => (
+          <option key={watchlist.id} value={watchlist.id}>
+            {watchlist.name} ({watchlist.tickers.length})
+          </option>
+        ))}
+      </select>
+      <ul className="screen-list">
+        {watchlists.map((watchlist) => (
+          <li key={watchlist.id} className="screen-item">
+            {editingId === watchlist.id ? (
+              <input
+                aria-label={`Rename ${watchlist.name}`}
+                type="text"
+                value={draftName}
+                autoFocus
+                onChange={(event) => setDraftName(event.target.value)}
+                onBlur={() => commitRename(watchlist)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') commitRename(watchlist)
+                  if (event.key === 'Escape') setEditingId(null)
+                }}
+              />
+            ) : (
+              <button
+                className="screen-name"
+                onClick={() => onChange(watchlist.id)}
+                title="Show this watchlist"
+              >
+                {watchlist.name}
               </button>
+            )}
+            <div className="screen-actions">
               <button
-                type="button"
-                className="ghost-btn"
-                onClick={() => briefQuery.data && reset(briefQuery.data.data as unknown as ServicesFormValues)}
+                onClick={() => {
+                  setEditingId(watchlist.id)
+                  setDraftName(watchlist.name)
+                }}
               >
-                Reset
+                Rename
+              </button>
+              <button
+                onClick={() => deleteMutation.mutate(watchlist.id)}
+                disabled={deleteMutation.isPending}
+              >
+                Delete
               </button>
             </div>
-          </form>
-        ) : (
-          <form onSubmit={handleSubmit(onSubmit)} className="services-form">
-            <div className="form-header">
-              <div>
-                <p className="panel-label">Mandate setup</p>
-                <h2>Client onboarding</h2>
-              </div>
-              {brief && (
-                <p className="form-prefill">
-                  Prefilled from your saved profile
-                </p>
-              )}
-            </div>
-            <div className="form-grid">
-              <div className="form-group">
-                <label htmlFor="clientName">Client name</label>
-                <input
-                  id="clientName"
-                  type="text"
-                  {...register('clientName')}
-                  className={errors.clientName && !isSubmitting ? 'error' : ''}
-                />
-                {errors.clientName && !isSubmitting && (
-                  <p className="error-text">{errors.clientName.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="email">Email</label>
-                <input
-                  id="email"
-                  type="email"
-                  {...register('email')}
-                  className={errors.email && !isSubmitting ? 'error' : ''}
-                />
-                {errors.email && !isSubmitting && (
-                  <p className="error-text">{errors.email.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="firm">Firm</label>
-                <input
-                  id="firm"
-                  type="text"
-                  {...register('firm')}
-                  className={errors.firm && !isSubmitting ? 'error' : ''}
-                />
-                {errors.firm && !isSubmitting && (
-                  <p className="error-text">{errors.firm.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="portfolioSize">Portfolio size (USD)</label>
+          </li>
+        ))}
+      </ul>
+      <div className="screen-save-row">
+        <input
+          aria-label="New watchlist name"
+          type="text"
+          placeholder="New watchlist"
+          value={newName}
+          onChange={(event) => setNewName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') create()
+          }}
+        />
+        <button
+          className="ghost-btn"
+          onClick={create}
+          disabled={!newName.trim() || createMutation.isPending}
+        >
+          Create
+        </button>
+      </div>
+      {mutationError && <p className="error-text">{mutationError.message}</p>}
+    </div>
+  )
+}
+
+type StockColumnId = (typeof stockSortColumns)[number]
+
+const stockColumnHeaders: Record<StockColumnId, string> = {
+  ticker: 'Ticker',
+  company: 'Company',
+  sector: 'Sector',
+  price: 'Price',
+  changePercent: 'Change',
+  volume: 'Volume',
+  marketCap: 'Market Cap',
+  rating: 'Rating',
+  lastUpdated: 'Updated',
+}
+
+const formatStockField = (columnId: StockColumnId, stock: Stock): string => {
+  switch (columnId) {
+    case 'price':
+      return currencyFormatter.format(stock.price)
+    case 'changePercent':
+      return formatPercent(stock.changePercent)
+    case 'volume':
+      return compactFormatter.format(stock.volume)
+    case 'marketCap':
+      return `$${compactFormatter.format(stock.marketCap)}`
+    case 'lastUpdated':
+      return formatClockTime(stock.lastUpdated)
+    default:
+      return stock[columnId]
+  }
+}
+
+type ExportFormat = 'csv' | 'json' | 'xlsx'
+
+type ExportCell = string | number
+
+const filterLabels: Record<keyof Filters, string> = {
+  search: 'Search',
+  sector: 'Sector',
+  rating: 'Rating',
+  change: 'Daily change',
+  minPrice: 'Min price',
+  maxPrice: 'Max price',
+  minCap: 'Min market cap',
+  maxCap: 'Max market cap',
+  watchlist: 'Watchlist',
+}
+
+const describeFilters = (filters: Filters, watchlistName?: string) => {
+  const active = (Object.keys(filterLabels) as (keyof Filters)[])
+    .filter((key) => String(filters[key]) !== String(defaultFilters[key]))
+    .map((key) => {
+      const value = filters[key]
+      const label = Array.isArray(value) ? value.join(', ') : value
+      return `${filterLabels[key]}: ${key === 'watchlist' ? (watchlistName ?? label) : label}`
+    })
+
+  return `Filters: ${active.length ? active.join('; ') : 'none'}`
+}
+
+const escapeCsv = (value: ExportCell) => {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+  let crc = index
+  for (let bit = 0; bit < 8; bit += 1) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+  }
+  return crc >>> 0
+})
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Writes an uncompressed ("stored") zip archive, which is all an XLSX package
+// needs and keeps the export free of a spreadsheet dependency.
+const createZip = (files: { name: string; content: string }[], type: string) => {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const directory: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name)
+    const data = encoder.encode(file.content)
+    const crc = crc32(data)
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true)
+    localView.setUint16(12, 0x21, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const entry = new Uint8Array(46 + name.length)
+    const entryView = new DataView(entry.buffer)
+    entryView.setUint32(0, 0x02014b50, true)
+    entryView.setUint16(4, 20, true)
+    entryView.setUint16(6, 20, true)
+    entryView.setUint16(14, 0x21, true)
+    entryView.setUint32(16, crc, true)
+    entryView.setUint32(20, data.length, true)
+    entryView.setUint32(24, data.length, true)
+    entryView.setUint16(28, name.length, true)
+    entryView.setUint32(42, offset, true)
+    entry.set(name, 46)
+
+    parts.push(local, data)
+    directory.push(entry)
+    offset += local.length + data.length
+  })
+
+  const directorySize = directory.reduce((size, entry) => size + entry.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, files.length, true)
+  endView.setUint16(10, files.length, true)
+  endView.setUint32(12, directorySize, true)
+  endView.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...directory, end], { type })
+}
+
+const columnLetter = (index: number): string =>
+  index < 26
+    ? String.fromCharCode(65 + index)
+    : columnLetter(Math.floor(index / 26) - 1) + columnLetter(index % 26)
+
+const createWorkbook = (sheetName: string, rows: ExportCell[][]) => {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, columnIndex) => {
+          const ref = `${columnLetter(columnIndex)}${rowIndex + 1}`
+          return typeof value === 'number'
+            ? `<c r="${ref}"><v>${value}</v></c>`
+            : `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(value)}</t></is></c>`
+        })
+        .join('')
+      return `<row r="${rowIndex + 1}">${cells}</row>`
+    })
+    .join('')
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+
+  return createZip(
+    [
+      {
+        name: '[Content_Types].xml',
+        content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+      },
+      {
+        name: '_rels/.rels',
+        content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+      },
+      {
+        name: 'xl/workbook.xml',
+        content: `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      },
+      {
+        name: 'xl/_rels/workbook.xml.rels',
+        content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+      },
+      {
+        name: 'xl/worksheets/sheet1.xml',
+        content: `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`,
+      },
+    ],
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  )
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Some browsers start the download after click() returns, so the URL has to
+  // outlive the current task.
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+// Selections span pages (and can outlive the filters that produced them), so
+// selected rows are resolved ticker by ticker through the quote cache.
+const fetchSelectedStocks = async (queryClient: QueryClient, tickers: string[]) => {
+  const responses = await Promise.all(
+    tickers.map((ticker) =>
+      queryClient.fetchQuery({
+        queryKey: ['stock', ticker],
+        queryFn: () => fetchStock(ticker),
+      }),
+    ),
+  )
+  return responses.map((response) => response.data)
+}
+
+const exportStocks = ({
+  format,
+  raw,
+  stocks,
+  columns,
+  filters,
+  watchlistName,
+  selection,
+}: {
+  format: ExportFormat
+  raw: boolean
+  stocks: Stock[]
+  columns: { id: StockColumnId; header: string }[]
+  filters: Filters
+  watchlistName?: string
+  selection?: string[]
+}) => {
+  const filename = `stocks-${new Date().toISOString().slice(0, 10)}.${format}`
+  const description = selection
+    ? `Selection: ${selection.join(', ')}`
+    : describeFilters(filters, watchlistName)
+  const cellValue = (stock: Stock, id: StockColumnId): ExportCell =>
+    raw ? stock[id] : formatStockField(id, stock)
+
+  if (format === 'json') {
+    const rows = stocks.map((stock) =>
+      Object.fromEntries(columns.map((column) => [column.header, cellValue(stock, column.id)])),
+    )
+    const payload = { description, filters, exportedAt: new Date().toISOString(), rows }
+    downloadBlob(
+      new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }),
+      filename,
+    )
+    return
+  }
+
+  const rows: ExportCell[][] = [
+    [description],
+    columns.map((column) => column.header),
+    ...stocks.map((stock) => columns.map((column) => cellValue(stock, column.id))),
+  ]
+
+  if (format === 'csv') {
+    const csv = rows.map((row) => row.map(escapeCsv).join(',')).join('\n')
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), filename)
+    return
+  }
+
+  downloadBlob(createWorkbook('Stocks', rows), filename)
+}
+
+function ExportMenu({
+  table,
+  filters,
+  view,
+  total,
+  watchlistName,
+  selection,
+}: {
+  table: Table<Stock>
+  filters: Filters
+  view: StocksView
+  total: number
+  watchlistName?: string
+  selection?: string[]
+}) {
+  const queryClient = useQueryClient()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [open, setOpen] = useState(false)
+  const [raw, setRaw] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [open])
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: ExportFormat) => {
+      const allRows: StocksView = { ...view, page: 1, pageSize: Math.max(1, total) }
+      const stocks = selection
+        ? await fetchSelectedStocks(queryClient, selection)
+        : (
+            await queryClient.fetchQuery({
+              queryKey: ['stocks', filters, allRows],
+              queryFn: ({ signal }) => fetchStocks(filters, allRows, signal),
+            })
+          ).data
+      const columns = table
+        .getVisibleLeafColumns()
+        .filter((column) => column.getCanHide())
+        .map((column) => ({
+          id: column.id as StockColumnId,
+          header: String(column.columnDef.header),
+        }))
+
+      exportStocks({
+        format,
+        raw,
+        stocks,
+        columns,
+        filters,
+        watchlistName,
+        selection,
+      })
+    },
+    onSuccess: () => setOpen(false),
+  })
+
+  return (
+    <div ref={containerRef} className="toolbar-menu">
+      <button
+        className="ghost-btn"
+        aria-expanded={open}
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={total === 0}
+      >
+        {exportMutation.isPending ? 'Exporting…' : selection ? 'Export selected' : 'Export'}
+      </button>
+      {open && (
+        <div className="watch-popover toolbar-popover">
+          <p className="panel-label">
+            Export {numberFormatter.format(selection?.length ?? total)}{' '}
+            {selection ? 'selected rows' : 'rows'}
+          </p>
+          {(['csv', 'xlsx', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              className="menu-item"
+              onClick={() => exportMutation.mutate(format)}
+              disabled={exportMutation.isPending}
+            >
+              {{ csv: 'CSV', xlsx: 'Excel workbook (.xlsx)', json: 'JSON' }[format]}
+            </button>
+          ))}
+          <label className="watch-option">
+            <input
+              type="checkbox"
+              checked={raw}
+              onChange={(event) => setRaw(event.target.checked)}
+            />
+            Raw numbers
+          </label>
+          {exportMutation.isError && (
+            <p className="error-text">{exportMutation.error.message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const tableLayoutSchema = z.object({
+  columnVisibility: z.record(z.string(), z.boolean()).catch({}),
+  columnOrder: z.array(z.string()).catch([]),
+  columnSizing: z.record(z.string(), z.number()).catch({}),
+})
+
+type TableLayout = z.infer<typeof tableLayoutSchema>
+
+type Preferences = {
+  stocksTable: TableLayout | null
+  updatedAt: string | null
+}
+
+// Column drags and resizes fire on every pointer move, so layout changes
+// settle for a moment before they are saved.
+const TABLE_LAYOUT_SAVE_DELAY = 500
+
+const fetchPreferences = async () => {
+  const response = await fetch('/api/preferences')
+
+  if (!response.ok) {
+    throw new Error('Unable to load preferences')
+  }
+
+  return (await response.json()) as { data: Preferences }
+}
+
+const updatePreferences = async (changes: Partial<Pick<Preferences, 'stocksTable'>>) => {
+  const response = await fetch('/api/preferences', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to save preferences')
+  }
+
+  return (await response.json()) as { data: Preferences }
+}
+
+// Shared by the board's route loader, the board and exports, so the saved
+// layout is read once per visit.
+const preferencesQuery = queryOptions({
+  queryKey: ['preferences'],
+  queryFn: fetchPreferences,
+})
+
+const defaultTableLayout: TableLayout = {
+  columnVisibility: {},
+  columnOrder: [],
+  columnSizing: {},
+}
+
+const parseTableLayout = (stored: TableLayout | null | undefined): TableLayout => {
+  try {
+    if (!stored) return defaultTableLayout
+
+    const layout = tableLayoutSchema.parse(stored)
+    // Layouts saved before the selection column existed would otherwise push
+    // it to the far right.
+    return layout.columnOrder.length && !layout.columnOrder.includes('select')
+      ? { ...layout, columnOrder: ['select', ...layout.columnOrder] }
+      : layout
+  } catch {
+    return defaultTableLayout
+  }
+}
+
+function ColumnChooser({
+  table,
+  onReset,
+}: {
+  table: Table<Stock>
+  onReset: () => void
+}) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [open, setOpen] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [open])
+
+  return (
+    <div ref={containerRef} className="toolbar-menu">
+      <button
+        className="ghost-btn"
+        aria-expanded={open}
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        Columns
+      </button>
+      {open && (
+        <div className="watch-popover toolbar-popover">
+          <p className="panel-label">Visible columns</p>
+          {table
+            .getAllLeafColumns()
+            .filter((column) => column.getCanHide())
+            .map((column) => (
+              <label key={column.id} className="watch-option">
                 <input
-                  id="portfolioSize"
-                  type="text"
-                  {...register('portfolioSize')}
-                  className={errors.portfolioSize && !isSubmitting ? 'error' : ''}
+                  type="checkbox"
+                  checked={column.getIsVisible()}
+                  onChange={column.getToggleVisibilityHandler()}
                 />
-                {errors.portfolioSize && !isSubmitting && (
-                  <p className="error-text">{errors.portfolioSize.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="mandateType">Mandate type</label>
-                <select
-                  id="mandateType"
-                  {...register('mandateType')}
-                  className={errors.mandateType && !isSubmitting ? 'error' : ''}
-                >
-                  <option value="">Select mandate</option>
-                  <option value="discretionary">Discretionary</option>
-                  <option value="advisory">Advisory</option>
-                  <option value="execution-only">Execution only</option>
-                </select>
-                {errors.mandateType && !isSubmitting && (
-                  <p className="error-text">{errors.mandateType.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="riskProfile">Risk profile</label>
-                <select
-                  id="riskProfile"
-                  {...register('riskProfile')}
-                  className={errors.riskProfile && !isSubmitting ? 'error' : ''}
-                >
-                  <option value="">Select risk</option>
-                  <option value="conservative">Conservative</option>
-                  <option value="moderate">Moderate</option>
-                  <option value="aggressive">Aggressive</option>
-                </select>
-                {errors.riskProfile && !isSubmitting && (
-                  <p className="error-text">{errors.riskProfile.message}</p>
-                )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="investmentHorizon">Investment horizon</label>
-                <select
-                  id="investmentHorizon"
-                  {...register('investmentHorizon')}
-                  className={errors.investmentHorizon && !isSubmitting ? 'error' : ''}
-                >
-                  <option value="">Select horizon</option>
-                  <option value="short">Short (0-3 years)</option>
-                  <option value="medium">Medium (3-7 years)</option>
-                  <option value="long">Long (7+ years)</option>
-                </select>
-                {errors.investmentHorizon && !isSubmitting && (
-                  <p className="error-text">{errors.investmentHorizon.message}</p>
+                {String(column.columnDef.header)}
+              </label>
+            ))}
+          <p className="helper">Drag headers to reorder, drag edges to resize.</p>
+          <button className="ghost-btn" onClick={onReset}>
+            Reset layout
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+type AlertRule = {
+  id: string
+  ticker: string | null
+  sector: string | null
+  metric: 'price' | 'changePercent'
+  condition: 'above' | 'below'
+  threshold: number
+  status: 'pending' | 'triggered'
+  createdAt: string
+  triggeredAt: string | null
+  history: AlertEvent[]
+}
+
+type AlertEvent = {
+  id: string
+  ruleId: string
+  ticker: string
+  value: number
+  message: string
+  triggeredAt: string
+  read: boolean
+}
+
+const ALERT_POLL_INTERVAL = 5000
+const TOAST_DURATION = 6000
+
+const fetchAlerts = async () => {
+  const response = await fetch('/api/alerts')
+
+  if (!response.ok) {
+    throw new Error('Unable to load alerts')
+  }
+
+  return (await response.json()) as { data: AlertRule[] }
+}
+
+const createAlert = async (
+  rule: Pick<AlertRule, 'ticker' | 'sector' | 'metric' | 'condition' | 'threshold'>,
+) => {
+  const response = await fetch('/api/alerts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(rule),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to create alert')
+  }
+
+  return (await response.json()) as { data: AlertRule }
+}
+
+const rearmAlert = async (id: string) => {
+  const response = await fetch(`/api/alerts/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: 'pending' }),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to re-arm alert')
+  }
+
+  return (await response.json()) as { data: AlertRule }
+}
+
+const deleteAlert = async (id: string) => {
+  const response = await fetch(`/api/alerts/${id}`, { method: 'DELETE' })
+
+  if (!response.ok) {
+    throw new Error('Unable to delete alert')
+  }
+}
+
+const fetchAlertNotifications = async () => {
+  const response = await fetch('/api/alerts/notifications')
+
+  if (!response.ok) {
+    throw new Error('Unable to load notifications')
+  }
+
+  return (await response.json()) as {
+    data: AlertEvent[]
+    meta: { total: number; unread: number }
+  }
+}
+
+const markNotificationsRead = async (ids?: string[]) => {
+  const response = await fetch('/api/alerts/notifications/read', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids }),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to update notifications')
+  }
+}
+
+const describeAlertRule = (rule: Pick<AlertRule, 'ticker' | 'sector' | 'metric' | 'condition' | 'threshold'>) => {
+  const subject = rule.ticker ?? `Any ${rule.sector} name`
+
+  return rule.metric === 'price'
+    ? `${subject} crosses ${rule.condition} ${currencyFormatter.format(rule.threshold)}`
+    : `${subject} ${rule.condition === 'above' ? 'rises' : 'drops'} more than ${percentFormatter.format(Math.abs(rule.threshold))}%`
+}
+
+const alertRuleSchema = z.object({
+  scope: z.enum(['ticker', 'sector'], 'Select a scope'),
+  metric: z.enum(['price', 'changePercent'], 'Select a trigger'),
+  condition: z.enum(['above', 'below'], 'Select a direction'),
+  threshold: z
+    .string()
+    .min(1, 'Threshold is required')
+    .refine((value) => Number.isFinite(Number(value)) && Number(value) > 0, {
+      message: 'Threshold must be a positive number',
+    }),
+})
+
+type AlertRuleFormValues = z.infer<typeof alertRuleSchema>
+
+function AlertRuleDialog({ stocks, onClose }: { stocks: Stock[]; onClose: () => void }) {
+  const queryClient = useQueryClient()
+  const [stock] = stocks
+  const bulk = stocks.length > 1
+  const sectors = Array.from(new Set(stocks.map((item) => item.sector)))
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors },
+  } = useForm<AlertRuleFormValues>({
+    resolver: zodResolver(alertRuleSchema),
+    // A single price level rarely fits several names, so bulk alerts start
+    // from a daily change trigger instead.
+    defaultValues: {
+      scope: 'ticker',
+      metric: bulk ? 'changePercent' : 'price',
+      condition: 'above',
+      threshold: bulk ? '2' : stock.price.toFixed(2),
+    },
+  })
+
+  const scope = useWatch({ control, name: 'scope' })
+  const metric = useWatch({ control, name: 'metric' })
+
+  const createMutation = useMutation({
+    mutationFn: (rules: Parameters<typeof createAlert>[0][]) =>
+      Promise.all(rules.map((rule) => createAlert(rule))),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      onClose()
+    },
+  })
+
+  const onSubmit = (values: AlertRuleFormValues) => {
+    const threshold = Number(values.threshold)
+    const rule = {
+      metric: values.metric,
+      condition: values.condition,
+      threshold:
+        values.metric === 'changePercent' && values.condition === 'below'
+          ? -threshold
+          : threshold,
+    }
+
+    createMutation.mutate(
+      values.scope === 'ticker'
+        ? stocks.map((item) => ({ ...rule, ticker: item.ticker, sector: null }))
+        : sectors.map((sector) => ({ ...rule, ticker: null, sector })),
+    )
+  }
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <form
+        className="dialog-card services-form"
+        onClick={(event) => event.stopPropagation()}
+        onSubmit={handleSubmit(onSubmit)}
+      >
+        <div className="form-header">
+          <div>
+            <p className="panel-label">{bulk ? 'New alerts' : 'New alert'}</p>
+            <h2>
+              {bulk
+                ? `${stocks.length} selected tickers`
+                : `${stock.ticker} · ${currencyFormatter.format(stock.price)}`}
+            </h2>
+          </div>
+          <button type="button" className="ghost-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="form-grid">
+          <div className="form-group">
+            <label htmlFor="alert-scope">Applies to</label>
+            <select id="alert-scope" {...register('scope')}>
+              <option value="ticker">
+                {bulk ? `Each selected ticker (${stocks.length})` : `${stock.ticker} only`}
+              </option>
+              <option value="sector">
+                {sectors.length > 1
+                  ? `Any name in ${sectors.length} sectors`
+                  : `Any ${stock.sector} name`}
+              </option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="alert-metric">Trigger</label>
+            <select id="alert-metric" {...register('metric')}>
+              <option value="price">Price crosses</option>
+              <option value="changePercent">Daily change</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="alert-condition">Direction</label>
+            <select id="alert-condition" {...register('condition')}>
+              <option value="above">{metric === 'price' ? 'Above' : 'Rises more than'}</option>
+              <option value="below">{metric === 'price' ? 'Below' : 'Drops more than'}</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="alert-threshold">
+              {metric === 'price' ? 'Price (USD)' : 'Change (%)'}
+            </label>
+            <input
+              id="alert-threshold"
+              type="number"
+              inputMode="decimal"
+              step="any"
+              {...register('threshold')}
+              className={errors.threshold ? 'error' : ''}
+            />
+            {errors.threshold && <p className="error-text">{errors.threshold.message}</p>}
+          </div>
+        </div>
+        {metric === 'price' && (scope === 'sector' || bulk) && (
+          <p className="helper">
+            {scope === 'sector' ? 'Sector-wide' : 'Shared'} price levels rarely make sense;
+            consider a daily change trigger.
+          </p>
+        )}
+        {bulk && (
+          <p className="helper">
+            Creates{' '}
+            {scope === 'ticker'
+              ? `${stocks.length} rules, one per ticker`
+              : `${sectors.length} rules: ${sectors.join(', ')}`}
+            .
+          </p>
+        )}
+        {createMutation.isError && (
+          <p className="error-text">{createMutation.error.message}</p>
+        )}
+        <div className="form-actions">
+          <button type="submit" className="primary-btn" disabled={createMutation.isPending}>
+            {createMutation.isPending ? 'Saving…' : bulk ? 'Create alerts' : 'Create alert'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+function AlertCenter() {
+  const queryClient = useQueryClient()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [open, setOpen] = useState(false)
+  const [sessionStart] = useState(() => new Date().toISOString())
+  const [dismissed, setDismissed] = useState<string[]>([])
+
+  const notificationsQuery = useQuery({
+    queryKey: ['alert-notifications'],
+    queryFn: fetchAlertNotifications,
+    refetchInterval: ALERT_POLL_INTERVAL,
+  })
+
+  const readMutation = useMutation({
+    mutationFn: markNotificationsRead,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['alert-notifications'] }),
+  })
+
+  const notifications = notificationsQuery.data?.data ?? []
+  const unread = notificationsQuery.data?.meta.unread ?? 0
+  const toasts = notifications.filter(
+    (event) =>
+      !event.read && event.triggeredAt >= sessionStart && !dismissed.includes(event.id),
+  )
+
+  const toastIds = toasts.map((toast) => toast.id).join(',')
+
+  useEffect(() => {
+    if (!toastIds) return
+
+    const timer = setTimeout(
+      () => setDismissed((prev) => [...prev, ...toastIds.split(',')]),
+      TOAST_DURATION,
+    )
+    return () => clearTimeout(timer)
+  }, [toastIds])
+
+  useEffect(() => {
+    if (!open) return
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [open])
+
+  return (
+    <>
+      <div ref={containerRef} className="toolbar-menu alert-center">
+        <button
+          className="inbox-btn"
+          aria-label={`Notifications, ${unread} unread`}
+          aria-expanded={open}
+          onClick={() => setOpen((prev) => !prev)}
+        >
+          🔔{unread > 0 && <span className="inbox-badge">{unread}</span>}
+        </button>
+        {open && (
+          <div className="watch-popover toolbar-popover inbox-popover">
+            <div className="inbox-header">
+              <p className="panel-label">Notifications</p>
+              <button
+                className="menu-item"
+                onClick={() => readMutation.mutate(undefined)}
+                disabled={unread === 0 || readMutation.isPending}
+              >
+                Mark all read
+              </button>
+            </div>
+            {notifications.length === 0 ? (
+              <p className="helper">No alerts have fired yet.</p>
+            ) : (
+              <ul className="inbox-list">
+                {notifications.slice(0, 20).map((event) => (
+                  <li key={event.id} className={event.read ? 'read' : undefined}>
+                    <Link
+                      to="/stocks/$ticker"
+                      params={{ ticker: event.ticker }}
+                      onClick={() => {
+                        if (!event.read) readMutation.mutate([event.id])
+                        setOpen(false)
+                      }}
+                    >
+                      {event.message}
+                    </Link>
+                    <span className="helper">{formatClockTime(event.triggeredAt)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Link to="/alerts" className="menu-item" onClick={() => setOpen(false)}>
+              Manage alerts →
+            </Link>
+          </div>
+        )}
+      </div>
+      {toasts.length > 0 && (
+        <div className="toast-stack" role="status">
+          {toasts.map((toast) => (
+            <div key={toast.id} className="toast">
+              <p className="panel-label">Alert triggered</p>
+              <p>{toast.message}</p>
+              <button
+                className="menu-item"
+                onClick={() => setDismissed((prev) => [...prev, toast.id])}
+              >
+                Dismiss
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
+
+function StockSearch({
+  value,
+  onCommit,
+}: {
+  value: string
+  onCommit: (search: string) => void
+}) {
+  const navigate = useNavigate()
+  const [draft, setDraft] = useState(value)
+  const [committed, setCommitted] = useState(value)
+  const [debounced, setDebounced] = useState(value)
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+
+  // Back/forward, resets and saved screens change the URL underneath the
+  // input, so the draft follows the committed value whenever that moves.
+  if (value !== committed) {
+    setCommitted(value)
+    setDraft(value)
+  }
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebounced(draft)
+      if (draft !== value) onCommit(draft)
+    }, SEARCH_DEBOUNCE)
+    return () => clearTimeout(timer)
+  }, [draft, value, onCommit])
+
+  const query = debounced.trim()
+  const suggestQuery = useQuery({
+    queryKey: ['stock-suggest', query],
+    queryFn: ({ signal }) => fetchStockSuggestions(query, signal),
+    enabled: open && query.length > 0,
+    staleTime: 30_000,
+  })
+
+  const suggestions = suggestQuery.data?.data ?? []
+  const showSuggestions = open && draft.trim().length > 0 && suggestions.length > 0
+
+  const select = (suggestion: StockSuggestion) => {
+    setOpen(false)
+    navigate({ to: '/stocks/$ticker', params: { ticker: suggestion.ticker } })
+  }
+
+  return (
+    <div className="filter-group typeahead">
+      <label htmlFor="search">Search</label>
+      <input
+        id="search"
+        type="search"
+        placeholder="Ticker or company"
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showSuggestions}
+        aria-controls="search-suggestions"
+        aria-activedescendant={
+          showSuggestions && activeIndex >= 0 ? `suggestion-${activeIndex}` : undefined
+        }
+        value={draft}
+        onChange={(event) => {
+          setDraft(event.target.value)
+          setOpen(true)
+          setActiveIndex(-1)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(event) => {
+          if (event.key === 'ArrowDown' && suggestions.length) {
+            event.preventDefault()
+            setOpen(true)
+            setActiveIndex((prev) => (prev + 1) % suggestions.length)
+          } else if (event.key === 'ArrowUp' && suggestions.length) {
+            event.preventDefault()
+            setActiveIndex((prev) => (prev <= 0 ? suggestions.length - 1 : prev - 1))
+          } else if (event.key === 'Enter') {
+            if (showSuggestions && suggestions[activeIndex]) {
+              select(suggestions[activeIndex])
+            } else {
+              setOpen(false)
+              if (draft !== value) onCommit(draft)
+            }
+          } else if (event.key === 'Escape') {
+            setOpen(false)
+          }
+        }}
+      />
+      {showSuggestions && (
+        <ul id="search-suggestions" className="typeahead-list" role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.ticker}
+              id={`suggestion-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={index === activeIndex ? 'active' : undefined}
+              onMouseDown={(event) => {
+                event.preventDefault()
+                select(suggestion)
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              <span className="ticker">{suggestion.ticker}</span>
+              <span className="company">{suggestion.company}</span>
+              <span className="helper">{currencyFormatter.format(suggestion.price)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+type TreemapRect = { x: number; y: number; width: number; height: number }
+
+// Squarified treemap (Bruls, Huizing & van Wijk): rows are grown along the
+// short side for as long as that keeps the worst aspect ratio improving.
+const squarify = <T,>(items: T[], valueOf: (item: T) => number, rect: TreemapRect) => {
+  const total = items.reduce((sum, item) => sum + Math.max(0, valueOf(item)), 0)
+  const tiles: (TreemapRect & { item: T })[] = []
+  if (!total) return tiles
+
+  const scale = (rect.width * rect.height) / total
+  const queue = items
+    .map((item) => ({ item, area: valueOf(item) * scale }))
+    .filter((entry) => entry.area > 0)
+    .sort((a, b) => b.area - a.area)
+  let { x, y, width, height } = rect
+  let row: typeof queue = []
+
+  const worstRatio = (entries: typeof queue, side: number) => {
+    const areas = entries.map((entry) => entry.area)
+    const sum = areas.reduce((acc, area) => acc + area, 0)
+    return Math.max(
+      (side * side * Math.max(...areas)) / (sum * sum),
+      (sum * sum) / (side * side * Math.min(...areas)),
+    )
+  }
+
+  const placeRow = (entries: typeof queue) => {
+    const rowArea = entries.reduce((acc, entry) => acc + entry.area, 0)
+
+    if (width >= height) {
+      const rowWidth = rowArea / height
+      let offset = y
+      entries.forEach((entry) => {
+        const tileHeight = entry.area / rowWidth
+        tiles.push({ item: entry.item, x, y: offset, width: rowWidth, height: tileHeight })
+        offset += tileHeight
+      })
+      x += rowWidth
+      width -= rowWidth
+    } else {
+      const rowHeight = rowArea / width
+      let offset = x
+      entries.forEach((entry) => {
+        const tileWidth = entry.area / rowHeight
+        tiles.push({ item: entry.item, x: offset, y, width: tileWidth, height: rowHeight })
+        offset += tileWidth
+      })
+      y += rowHeight
+      height -= rowHeight
+    }
+  }
+
+  for (const entry of queue) {
+    const side = Math.min(width, height)
+    if (!row.length || worstRatio([...row, entry], side) <= worstRatio(row, side)) {
+      row.push(entry)
+    } else {
+      placeRow(row)
+      row = [entry]
+    }
+  }
+  if (row.length) placeRow(row)
+
+  return tiles
+}
+
+const HEATMAP_WIDTH = 1000
+const HEATMAP_HEIGHT = 600
+const HEATMAP_HEADER = 26
+const HEATMAP_RANGE = 3
+
+// The treemap needs every match, largest first; past this many tiles they
+// shrink below a pixel, so the smallest names are left out with a notice.
+const HEATMAP_MAX_TILES = 5000
+
+const heatmapView: StocksView = { sort: 'marketCap', order: 'desc', page: 1, pageSize: 500 }
+
+const heatColor = (changePercent: number) => {
+  const intensity = Math.min(1, Math.abs(changePercent) / HEATMAP_RANGE)
+  if (intensity < 0.02) return 'rgb(142, 134, 124)'
+  const [r, g, b] = changePercent > 0 ? [33, 99, 82] : [156, 58, 43]
+  return `rgba(${r}, ${g}, ${b}, ${0.35 + 0.65 * intensity})`
+}
+
+const toPercentBox = (rect: TreemapRect) => ({
+  left: `${(rect.x / HEATMAP_WIDTH) * 100}%`,
+  top: `${(rect.y / HEATMAP_HEIGHT) * 100}%`,
+  width: `${(rect.width / HEATMAP_WIDTH) * 100}%`,
+  height: `${(rect.height / HEATMAP_HEIGHT) * 100}%`,
+})
+
+function StockHeatmap({ stocks }: { stocks: Stock[] }) {
+  const sectors = useMemo(() => {
+    const groups = new Map<string, Stock[]>()
+    stocks.forEach((stock) => {
+      groups.set(stock.sector, [...(groups.get(stock.sector) ?? []), stock])
+    })
+
+    return squarify(
+      [...groups].map(([sector, members]) => ({
+        sector,
+        members,
+        marketCap: members.reduce((sum, stock) => sum + stock.marketCap, 0),
+      })),
+      (group) => group.marketCap,
+      { x: 0, y: 0, width: HEATMAP_WIDTH, height: HEATMAP_HEIGHT },
+    ).map((tile) => {
+      const header = tile.height > HEATMAP_HEADER * 2 ? HEATMAP_HEADER : 0
+      return {
+        ...tile,
+        tiles: squarify(tile.item.members, (stock) => stock.marketCap, {
+          x: tile.x,
+          y: tile.y + header,
+          width: tile.width,
+          height: tile.height - header,
+        }),
+      }
+    })
+  }, [stocks])
+
+  if (!stocks.length) {
+    return <p className="empty-state">No tickers match those filters.</p>
+  }
+
+  return (
+    <div className="heatmap-wrapper">
+      <div className="heatmap" role="list" aria-label="Market cap heatmap by sector">
+        {sectors.map((sector) => (
+          <div
+            key={sector.item.sector}
+            className="heatmap-sector"
+            style={toPercentBox(sector)}
+            title={`${sector.item.sector} · $${compactFormatter.format(sector.item.marketCap)}`}
+          >
+            <span className="heatmap-sector-name">{sector.item.sector}</span>
+          </div>
+        ))}
+        {sectors.flatMap((sector) =>
+          sector.tiles.map((tile) => {
+            const stock = tile.item
+            return (
+              <Link
+                key={stock.ticker}
+                role="listitem"
+                to="/stocks/$ticker"
+                params={{ ticker: stock.ticker }}
+                className="heatmap-tile"
+                style={{ ...toPercentBox(tile), background: heatColor(stock.changePercent) }}
+                title={`${stock.ticker} · ${stock.company}\n${currencyFormatter.format(stock.price)} (${formatPercent(stock.changePercent)}) · $${compactFormatter.format(stock.marketCap)}`}
+              >
+                {tile.width > 48 && tile.height > 28 && (
+                  <>
+                    <strong>{stock.ticker}</strong>
+                    {tile.height > 48 && <span>{formatPercent(stock.changePercent)}</span>}
+                  </>
+                )}
+              </Link>
+            )
+          }),
+        )}
+      </div>
+      <div className="heatmap-legend">
+        <span>−{HEATMAP_RANGE}%</span>
+        <span
+          className="heatmap-scale"
+          style={{
+            background: `linear-gradient(90deg, ${heatColor(-HEATMAP_RANGE)}, ${heatColor(0)}, ${heatColor(HEATMAP_RANGE)})`,
+          }}
+        />
+        <span>+{HEATMAP_RANGE}%</span>
+        <span className="helper">Tiles sized by market cap</span>
+      </div>
+    </div>
+  )
+}
+
+function AggregateSummary({ aggregates }: { aggregates: StockAggregates }) {
+  const moved = aggregates.advancers + aggregates.decliners
+  const rated = stockRatings.reduce((sum, rating) => sum + aggregates.ratings[rating], 0)
+
+  return (
+    <>
+      <div>
+        <p className="summary-label">Advancers / decliners</p>
+        <p className="summary-value">
+          <span className="trend up">{aggregates.advancers} ▲</span> /{' '}
+          <span className="trend down">{aggregates.decliners} ▼</span>
+          {aggregates.unchanged > 0 && (
+            <span className="helper"> · {aggregates.unchanged} flat</span>
+          )}
+        </p>
+        {moved > 0 && (
+          <div className="split-bar" aria-hidden="true">
+            <span
+              className="split-up"
+              style={{ width: `${(aggregates.advancers / moved) * 100}%` }}
+            />
+            <span
+              className="split-down"
+              style={{ width: `${(aggregates.decliners / moved) * 100}%` }}
+            />
+          </div>
+        )}
+      </div>
+      <div className="summary-pair">
+        <div>
+          <p className="summary-label">Cap-weighted change</p>
+          <p
+            className={`summary-value trend ${aggregates.capWeightedChange >= 0 ? 'up' : 'down'}`}
+          >
+            {formatPercent(aggregates.capWeightedChange)}
+          </p>
+        </div>
+        <div>
+          <p className="summary-label">Volume traded</p>
+          <p className="summary-value">{compactFormatter.format(aggregates.totalVolume)}</p>
+        </div>
+      </div>
+      <div>
+        <p className="summary-label">Ratings</p>
+        {rated > 0 && (
+          <div className="split-bar" aria-hidden="true">
+            {stockRatings.map((rating) => (
+              <span
+                key={rating}
+                className={`split-${rating.toLowerCase()}`}
+                style={{ width: `${(aggregates.ratings[rating] / rated) * 100}%` }}
+              />
+            ))}
+          </div>
+        )}
+        <p className="helper">
+          {stockRatings.map((rating) => `${aggregates.ratings[rating]} ${rating}`).join(' · ')}
+        </p>
+      </div>
+      <div>
+        <p className="summary-label">Sector breakdown</p>
+        <ul className="sector-breakdown">
+          {aggregates.sectors.map((entry) => {
+            const share = aggregates.totalMarketCap
+              ? (entry.marketCap / aggregates.totalMarketCap) * 100
+              : 0
+            return (
+              <li key={entry.sector}>
+                <span>
+                  {entry.sector} <span className="facet-count">({entry.count})</span>
+                </span>
+                <span className="helper">{percentFormatter.format(share)}%</span>
+                <span className="sector-share" style={{ width: `${share}%` }} />
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    </>
+  )
+}
+
+const SLIDER_STEPS = 1000
+
+function RangeFilter({
+  label,
+  min,
+  max,
+  bounds,
+  scale = 'linear',
+  format,
+  echoFormat = (amount) => `$${numberFormatter.format(amount)}`,
+  hint,
+  error,
+  onChange,
+}: {
+  label: string
+  min: string
+  max: string
+  bounds?: RangeBounds
+  scale?: 'linear' | 'log'
+  format: (amount: number) => string
+  echoFormat?: (amount: number) => string
+  hint: string
+  error: string | null
+  onChange: (min: string, max: string) => void
+}) {
+  const onChangeRef = useRef(onChange)
+  const [draft, setDraft] = useState({ min, max })
+  const [committed, setCommitted] = useState({ min, max })
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  // Typing and dragging edit a local draft that reaches the URL (and the
+  // query key) only once it settles, like the search box. Resets and saved
+  // screens move the bounds underneath, so the draft follows those.
+  if (min !== committed.min || max !== committed.max) {
+    setCommitted({ min, max })
+    setDraft({ min, max })
+  }
+
+  useEffect(() => {
+    if (draft.min === min && draft.max === max) return
+
+    const timer = setTimeout(() => onChangeRef.current(draft.min, draft.max), SEARCH_DEBOUNCE)
+    return () => clearTimeout(timer)
+  }, [draft, min, max])
+
+  const low = parseAmount(draft.min)
+  const high = parseAmount(draft.max)
+
+  // Market caps span several orders of magnitude, so that slider works in
+  // log space to keep small caps reachable.
+  const toPosition = (amount: number) => {
+    if (!bounds || bounds.max <= bounds.min) return 0
+    const clamped = Math.min(bounds.max, Math.max(bounds.min, amount))
+    const ratio =
+      scale === 'log'
+        ? Math.log(clamped / bounds.min) / Math.log(bounds.max / bounds.min)
+        : (clamped - bounds.min) / (bounds.max - bounds.min)
+    return Math.round(ratio * SLIDER_STEPS)
+  }
+
+  const fromPosition = (position: number) => {
+    if (!bounds) return 0
+    const ratio = position / SLIDER_STEPS
+    return scale === 'log'
+      ? bounds.min * (bounds.max / bounds.min) ** ratio
+      : bounds.min + (bounds.max - bounds.min) * ratio
+  }
+
+  const lowPosition = low !== undefined && !Number.isNaN(low) ? toPosition(low) : 0
+  const highPosition =
+    high !== undefined && !Number.isNaN(high) ? toPosition(high) : SLIDER_STEPS
+
+  // A handle parked at either end of the universe means "no bound".
+  const handleSlide = (handle: 'min' | 'max', position: number) => {
+    if (handle === 'min') {
+      const next = Math.min(position, highPosition)
+      setDraft({ ...draft, min: next <= 0 ? '' : format(fromPosition(next)) })
+    } else {
+      const next = Math.max(position, lowPosition)
+      setDraft({ ...draft, max: next >= SLIDER_STEPS ? '' : format(fromPosition(next)) })
+    }
+  }
+
+  const echo = [
+    low !== undefined && !Number.isNaN(low) ? `Min ${echoFormat(low)}` : null,
+    high !== undefined && !Number.isNaN(high) ? `Max ${echoFormat(high)}` : null,
+  ].filter(Boolean)
+
+  return (
+    <div className="filter-group">
+      <label>{label}</label>
+      <div className="range-row">
+        <input
+          type="text"
+          placeholder="Min"
+          aria-label={`Min ${label.toLowerCase()}`}
+          aria-invalid={Boolean(error)}
+          className={error ? 'error' : undefined}
+          value={draft.min}
+          onChange={(event) => setDraft({ ...draft, min: event.target.value })}
+        />
+        <input
+          type="text"
+          placeholder="Max"
+          aria-label={`Max ${label.toLowerCase()}`}
+          aria-invalid={Boolean(error)}
+          className={error ? 'error' : undefined}
+          value={draft.max}
+          onChange={(event) => setDraft({ ...draft, max: event.target.value })}
+        />
+      </div>
+      {bounds && (
+        <div className="dual-range">
+          <div
+            className="dual-range-fill"
+            style={{
+              left: `${(lowPosition / SLIDER_STEPS) * 100}%`,
+              right: `${100 - (highPosition / SLIDER_STEPS) * 100}%`,
+            }}
+          />
+          <input
+            type="range"
+            min={0}
+            max={SLIDER_STEPS}
+            value={lowPosition}
+            aria-label={`Min ${label.toLowerCase()} slider`}
+            onChange={(event) => handleSlide('min', Number(event.target.value))}
+          />
+          <input
+            type="range"
+            min={0}
+            max={SLIDER_STEPS}
+            value={highPosition}
+            aria-label={`Max ${label.toLowerCase()} slider`}
+            onChange={(event) => handleSlide('max', Number(event.target.value))}
+          />
+        </div>
+      )}
+      {bounds && (
+        <div className="dual-range-labels">
+          <span>{format(bounds.min)}</span>
+          <span>{format(bounds.max)}</span>
+        </div>
+      )}
+      {error ? (
+        <p className="error-text" role="alert">
+          {error}
+        </p>
+      ) : (
+        <p className="helper">
+          {echo.length ? echo.join(' · ') : hint}
+        </p>
+      )}
+    </div>
+  )
+}
+
+function StocksPage() {
+  const queryClient = useQueryClient()
+  const search = indexRoute.useSearch()
+  const navigate = indexRoute.useNavigate()
+  const filters = useMemo(() => pickFilters(search), [search])
+  const sorting = useMemo<SortingState>(
+    () => (search.sort ? [{ id: search.sort, desc: search.order === 'desc' }] : []),
+    [search.sort, search.order],
+  )
+  const pagination = useMemo<PaginationState>(
+    () => ({ pageIndex: search.page - 1, pageSize: search.pageSize }),
+    [search.page, search.pageSize],
+  )
+
+  const view = useMemo<StocksView>(
+    () => ({
+      sort: search.sort,
+      order: search.order,
+      page: search.page,
+      pageSize: search.pageSize,
+    }),
+    [search.sort, search.order, search.page, search.pageSize],
+  )
+
+  const rangeErrors = useMemo(() => filterRangeErrors(filters), [filters])
+
+  const query = useQuery({
+    queryKey: ['stocks', filters, view],
+    queryFn: ({ signal }) => fetchStocks(filters, view, signal),
+    placeholderData: keepPreviousData,
+    enabled: search.mode === 'table' && rangeErrors.length === 0,
+  })
+
+  // The first page reports the match count; larger universes are fetched
+  // again in one go up to the tile cap.
+  const heatmapQuery = useQuery({
+    queryKey: ['stocks', filters, heatmapView],
+    queryFn: async ({ signal }) => {
+      const first = await fetchStocks(filters, heatmapView, signal)
+      if (first.meta.total <= first.data.length) return first
+
+      return fetchStocks(
+        filters,
+        { ...heatmapView, pageSize: Math.min(first.meta.total, HEATMAP_MAX_TILES) },
+        signal,
+      )
+    },
+    placeholderData: keepPreviousData,
+    enabled: search.mode === 'heatmap' && rangeErrors.length === 0,
+  })
+
+  // Counts, facets and aggregates come from whichever view is on screen.
+  const boardQuery = search.mode === 'table' ? query : heatmapQuery
+
+  const live = useLivePrices(filters)
+
+  const preferences = useQuery(preferencesQuery)
+  const savedLayout = preferences.data?.data.stocksTable
+  const [layout] = useState(() => parseTableLayout(savedLayout))
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>(
+    layout.columnVisibility,
+  )
+  const [columnOrder, setColumnOrder] = useState<ColumnOrderState>(layout.columnOrder)
+  const [columnSizing, setColumnSizing] = useState<ColumnSizingState>(layout.columnSizing)
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null)
+  const [alertStocks, setAlertStocks] = useState<Stock[]>([])
+  const [tradeStock, setTradeStock] = useState<Stock | null>(null)
+  const [activeRow, setActiveRow] = useState<number | null>(null)
+  const tbodyRef = useRef<HTMLTableSectionElement>(null)
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+  // The tickers "Select all matching" picked, and the filters they matched;
+  // rows kept from earlier filters must not count towards the current set.
+  const [matchingSelection, setMatchingSelection] = useState<{
+    filtersKey: string
+    tickers: string[]
+  } | null>(null)
+
+  const { mutate: saveLayout } = useMutation({
+    mutationFn: updatePreferences,
+    onSuccess: (response) => queryClient.setQueryData(preferencesQuery.queryKey, response),
+  })
+
+  useEffect(() => {
+    const stocksTable = { columnVisibility, columnOrder, columnSizing }
+    if (JSON.stringify(stocksTable) === JSON.stringify(savedLayout ?? defaultTableLayout)) return
+
+    const timer = setTimeout(() => saveLayout({ stocksTable }), TABLE_LAYOUT_SAVE_DELAY)
+    return () => clearTimeout(timer)
+  }, [columnVisibility, columnOrder, columnSizing, savedLayout, saveLayout])
+
+  const watchlistsQuery = useQuery({
+    queryKey: ['watchlists'],
+    queryFn: fetchWatchlists,
+  })
+
+  const activeWatchlist = watchlistsQuery.data?.data.find(
+    (watchlist) => watchlist.id === filters.watchlist,
+  )
+
+  const data = query.data?.data ?? []
+  const sectors = boardQuery.data?.meta.sectors ?? []
+  const facets = boardQuery.data?.meta.facets
+  const total = boardQuery.data?.meta.total ?? 0
+  const bounds = boardQuery.data?.meta.bounds
+  const aggregates = boardQuery.data?.meta.aggregates
+
+  const columns = useMemo<ColumnDef<Stock>[]>(
+    () => [
+      {
+        id: 'select',
+        size: 44,
+        enableSorting: false,
+        enableHiding: false,
+        enableResizing: false,
+        header: ({ table }) => (
+          <input
+            type="checkbox"
+            aria-label="Select all rows on this page"
+            checked={table.getIsAllPageRowsSelected()}
+            ref={(input) => {
+              if (input) input.indeterminate = table.getIsSomePageRowsSelected()
+            }}
+            onChange={table.getToggleAllPageRowsSelectedHandler()}
+          />
+        ),
+        cell: ({ row }) => (
+          <input
+            type="checkbox"
+            aria-label={`Select ${row.original.ticker}`}
+            checked={row.getIsSelected()}
+            onClick={(event) => event.stopPropagation()}
+            onChange={row.getToggleSelectedHandler()}
+          />
+        ),
+      },
+      {
+        id: 'watch',
+        header: '',
+        size: 48,
+        enableSorting: false,
+        enableHiding: false,
+        enableResizing: false,
+        cell: ({ row }) => <WatchlistMenu ticker={row.original.ticker} />,
+      },
+      {
+        accessorKey: 'ticker',
+        size: 90,
+        header: stockColumnHeaders.ticker,
+        cell: (info) => (
+          <Link
+            to="/stocks/$ticker"
+            params={{ ticker: info.getValue<string>() }}
+            className="ticker"
+            onClick={(event) => event.stopPropagation()}
+          >
+            {info.getValue<string>()}
+          </Link>
+        ),
+      },
+      {
+        accessorKey: 'company',
+        size: 200,
+        header: stockColumnHeaders.company,
+        cell: (info) => <span className="company">{info.getValue<string>()}</span>,
+      },
+      {
+        accessorKey: 'sector',
+        size: 180,
+        header: stockColumnHeaders.sector,
+        cell: (info) => <span className="pill">{info.getValue<string>()}</span>,
+      },
+      {
+        accessorKey: 'price',
+        size: 110,
+        header: stockColumnHeaders.price,
+        cell: (info) => formatStockField('price', info.row.original),
+      },
+      {
+        accessorKey: 'changePercent',
+        size: 100,
+        header: stockColumnHeaders.changePercent,
+        cell: (info) => {
+          const value = info.getValue<number>()
+          return (
+            <span className={value >= 0 ? 'trend up' : 'trend down'}>
+              {formatStockField('changePercent', info.row.original)}
+            </span>
+          )
+        },
+      },
+      {
+        accessorKey: 'volume',
+        size: 100,
+        header: stockColumnHeaders.volume,
+        cell: (info) => formatStockField('volume', info.row.original),
+      },
+      {
+        accessorKey: 'marketCap',
+        size: 120,
+        header: stockColumnHeaders.marketCap,
+        cell: (info) => formatStockField('marketCap', info.row.original),
+      },
+      {
+        accessorKey: 'rating',
+        size: 90,
+        header: stockColumnHeaders.rating,
+        cell: (info) => <span className="rating">{info.getValue<string>()}</span>,
+      },
+      {
+        accessorKey: 'lastUpdated',
+        size: 120,
+        header: stockColumnHeaders.lastUpdated,
+        cell: (info) => formatStockField('lastUpdated', info.row.original),
+      },
+      {
+        id: 'actions',
+        header: '',
+        size: 140,
+        enableSorting: false,
+        enableHiding: false,
+        enableResizing: false,
+        cell: ({ row }) => (
+          <div className="row-actions">
+            <button
+              className="row-action"
+              onClick={(event) => {
+                event.stopPropagation()
+                setTradeStock(row.original)
+              }}
+            >
+              Trade
+            </button>
+            <button
+              className="row-action"
+              onClick={(event) => {
+                event.stopPropagation()
+                setAlertStocks([row.original])
+              }}
+            >
+              Alert
+            </button>
+          </div>
+        ),
+      },
+    ],
+    [],
+  )
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: {
+      sorting,
+      pagination,
+      columnVisibility,
+      columnOrder,
+      columnSizing,
+      rowSelection,
+    },
+    // Rows are keyed by ticker so a selection survives sorting and paging.
+    getRowId: (row) => row.ticker,
+    enableRowSelection: true,
+    onRowSelectionChange: setRowSelection,
+    onColumnVisibilityChange: setColumnVisibility,
+    onColumnOrderChange: setColumnOrder,
+    onColumnSizingChange: setColumnSizing,
+    enableColumnResizing: true,
+    columnResizeMode: 'onChange',
+    defaultColumn: { minSize: 60, maxSize: 480 },
+    onSortingChange: (updater) => {
+      const [next] = functionalUpdate(updater, sorting)
+      navigate({
+        search: (prev) => ({
+          ...prev,
+          sort: next?.id as StocksSearch['sort'],
+          order: next?.desc ? 'desc' : 'asc',
+          page: 1,
+        }),
+      })
+    },
+    onPaginationChange: (updater) => {
+      const next = functionalUpdate(updater, pagination)
+      navigate({
+        search: (prev) => ({
+          ...prev,
+          page: next.pageIndex + 1,
+          pageSize: next.pageSize,
+        }),
+      })
+    },
+    manualSorting: true,
+    manualPagination: true,
+    pageCount: query.data?.meta.pageCount ?? -1,
+    rowCount: total,
+    getCoreRowModel: getCoreRowModel(),
+  })
+
+  const pageCount = Math.max(1, table.getPageCount())
+
+  const rows = table.getRowModel().rows
+  const activeIndex = activeRow === null || !rows.length ? null : Math.min(activeRow, rows.length - 1)
+
+  // j/k walk the rows on the current page and Enter opens the highlighted
+  // one; typing in inputs, dialogs and the palette is left alone, as are
+  // buttons and links so Enter still activates them.
+  useEffect(() => {
+    if (search.mode !== 'table') return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (
+        event.metaKey ||
+        event.ctrlKey ||
+        event.altKey ||
+        target.closest(
+          'input, select, textarea, button, a, [contenteditable], [role="button"], [role="menu"], [role="dialog"]',
+        )
+      ) {
+        return
+      }
+
+      if ((event.key === 'j' || event.key === 'k') && rows.length) {
+        event.preventDefault()
+        const next =
+          activeIndex === null
+            ? 0
+            : Math.max(0, Math.min(rows.length - 1, activeIndex + (event.key === 'j' ? 1 : -1)))
+        setActiveRow(next)
+        tbodyRef.current?.rows[next]?.scrollIntoView({ block: 'nearest' })
+      } else if (event.key === 'Enter' && activeIndex !== null && rows[activeIndex]) {
+        event.preventDefault()
+        navigate({
+          to: '/stocks/$ticker',
+          params: { ticker: rows[activeIndex].original.ticker },
+        })
+      } else if (event.key === 'Escape') {
+        setActiveRow(null)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [search.mode, rows, activeIndex, navigate])
+
+  const selectedTickers = useMemo(
+    () => Object.keys(rowSelection).filter((ticker) => rowSelection[ticker]),
+    [rowSelection],
+  )
+  const filtersKey = JSON.stringify(filters)
+  const allMatchingSelected =
+    total > 0 &&
+    matchingSelection?.filtersKey === filtersKey &&
+    matchingSelection.tickers.length >= total &&
+    matchingSelection.tickers.every((ticker) => rowSelection[ticker])
+
+  const selectAllMatching = useMutation({
+    mutationFn: () => {
+      const allRows: StocksView = { ...view, page: 1, pageSize: Math.max(1, total) }
+      return queryClient.fetchQuery({
+        queryKey: ['stocks', filters, allRows],
+        queryFn: ({ signal }) => fetchStocks(filters, allRows, signal),
+      })
+    },
+    onSuccess: (response) => {
+      const tickers = response.data.map((stock) => stock.ticker)
+      setMatchingSelection({ filtersKey, tickers })
+      setRowSelection((prev) => ({
+        ...prev,
+        ...Object.fromEntries(tickers.map((ticker) => [ticker, true])),
+      }))
+    },
+  })
+
+  const alertSelection = useMutation({
+    mutationFn: () => fetchSelectedStocks(queryClient, selectedTickers),
+    onSuccess: setAlertStocks,
+  })
+
+  const updateFilter = <Key extends keyof Filters>(key: Key, value: Filters[Key]) => {
+    navigate({ search: (prev) => ({ ...prev, [key]: value, page: 1 }) })
+  }
+
+  // Debounced keystrokes replace the history entry instead of stacking one
+  // per commit.
+  const commitSearch = useCallback(
+    (search: string) => {
+      navigate({ search: (prev) => ({ ...prev, search, page: 1 }), replace: true })
+    },
+    [navigate],
+  )
+
+  const toggleFilterValue = <Key extends 'sector' | 'rating'>(
+    key: Key,
+    value: Filters[Key][number],
+  ) => {
+    const current: string[] = filters[key]
+    updateFilter(
+      key,
+      (current.includes(value)
+        ? current.filter((item) => item !== value)
+        : [...current, value]) as Filters[Key],
+    )
+  }
+
+  // Slider drags fire on every step, so ranges replace the history entry.
+  const updateRange = (
+    minKey: 'minPrice' | 'minCap',
+    maxKey: 'maxPrice' | 'maxCap',
+    min: string,
+    max: string,
+  ) => {
+    navigate({
+      search: (prev) => ({ ...prev, [minKey]: min, [maxKey]: max, page: 1 }),
+      replace: true,
+    })
+  }
+
+  const resetFilters = () => {
+    navigate({ search: (prev) => ({ ...prev, ...defaultFilters, page: 1 }) })
+  }
+
+  const moveColumn = (sourceId: string, targetId: string) => {
+    if (sourceId === targetId) return
+
+    const order = table.getAllLeafColumns().map((column) => column.id)
+    const next = order.filter((id) => id !== sourceId)
+    next.splice(next.indexOf(targetId), 0, sourceId)
+    table.setColumnOrder(next)
+  }
+
+  const resetLayout = () => {
+    table.resetColumnVisibility(true)
+    table.resetColumnOrder(true)
+    table.resetColumnSizing(true)
+  }
+
+  const applyScreen = (screenFilters: Filters) => {
+    navigate({ search: (prev) => ({ ...prev, ...screenFilters, page: 1 }) })
+  }
+
+  return (
+    <section className="stocks-layout">
+      <aside className="filters-panel">
+        <div className="filters-header">
+          <div>
+            <p className="eyebrow">Market pulse</p>
+            <h1>Track the stocks you care about.</h1>
+          </div>
+          <button className="ghost-btn" onClick={resetFilters}>
+            Reset filters
+          </button>
+        </div>
+
+        <StockSearch value={filters.search} onCommit={commitSearch} />
+
+        <fieldset className="filter-group checkbox-group">
+          <legend>Sector</legend>
+          {sectors.map((sector) => (
+            <label key={sector} className="watch-option">
+              <input
+                type="checkbox"
+                checked={filters.sector.includes(sector)}
+                onChange={() => toggleFilterValue('sector', sector)}
+              />
+              <span>{sector}</span>
+              <span className="facet-count">({facets?.sector[sector] ?? 0})</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="filter-group checkbox-group">
+          <legend>Analyst rating</legend>
+          {stockRatings.map((rating) => (
+            <label key={rating} className="watch-option">
+              <input
+                type="checkbox"
+                checked={filters.rating.includes(rating)}
+                onChange={() => toggleFilterValue('rating', rating)}
+              />
+              <span>{rating}</span>
+              <span className="facet-count">({facets?.rating[rating] ?? 0})</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="filter-group">
+          <label htmlFor="change">Daily change</label>
+          <select
+            id="change"
+            value={filters.change}
+            onChange={(event) =>
+              updateFilter('change', event.target.value as Filters['change'])
+            }
+          >
+            <option value="any">Any</option>
+            <option value="positive">Positive</option>
+            <option value="negative">Negative</option>
+          </select>
+        </div>
+
+        <RangeFilter
+          label="Price range"
+          min={filters.minPrice}
+          max={filters.maxPrice}
+          bounds={bounds?.price}
+          format={(amount) => String(Math.round(amount))}
+          hint="Drag the handles or type an amount."
+          error={rangeError('price', filters.minPrice, filters.maxPrice)}
+          onChange={(min, max) => updateRange('minPrice', 'maxPrice', min, max)}
+        />
+
+        <RangeFilter
+          label="Market cap (USD)"
+          min={filters.minCap}
+          max={filters.maxCap}
+          bounds={bounds?.marketCap}
+          scale="log"
+          format={(amount) => compactFormatter.format(amount)}
+          hint="Accepts shorthand like 50B, 750M or 1.2T."
+          error={rangeError('market cap', filters.minCap, filters.maxCap)}
+          onChange={(min, max) => updateRange('minCap', 'maxCap', min, max)}
+        />
+
+        <WatchlistPanel
+          value={filters.watchlist}
+          onChange={(watchlistId) => updateFilter('watchlist', watchlistId)}
+        />
+
+        <SavedScreensPanel filters={filters} onApply={applyScreen} />
+
+        <div className="filters-summary">
+          <div>
+            <p className="summary-label">Matches</p>
+            <p className="summary-value">
+              {boardQuery.isLoading ? 'Loading…' : numberFormatter.format(total)}
+            </p>
+          </div>
+          {aggregates && total > 0 && <AggregateSummary aggregates={aggregates} />}
+        </div>
+      </aside>
+
+      <div className="table-panel">
+        <div className="table-card">
+          <div className="table-toolbar">
+            <div>
+              <p className="eyebrow">Live board</p>
+              <h2>{activeWatchlist?.name ?? 'All tickers'}</h2>
+              <p className="lead">
+                {boardQuery.isError
+                  ? 'Unable to load mock data.'
+                  : 'Mock data powered by MSW + TanStack Query.'}
+              </p>
+            </div>
+            <div className="table-meta">
+              <span className={`stream-status ${live.status}`}>
+                {{ connecting: 'Connecting…', live: 'Live', offline: 'Feed offline' }[
+                  live.status
+                ]}
+              </span>
+              <span>
+                Updated{' '}
+                {live.lastTickAt
+                  ? formatClockTime(live.lastTickAt)
+                  : boardQuery.dataUpdatedAt
+                    ? formatClockTime(boardQuery.dataUpdatedAt)
+                    : '—'}
+              </span>
+              <span>{numberFormatter.format(total)} tickers</span>
+              <span className="helper">
+                <kbd>j</kbd>/<kbd>k</kbd> to move, <kbd>Enter</kbd> to open
+              </span>
+            </div>
+          </div>
+
+          <div className="table-actions">
+            <div className="segmented">
+              {(['table', 'heatmap'] as const).map((option) => (
+                <button
+                  key={option}
+                  className={option === search.mode ? 'active' : ''}
+                  onClick={() => navigate({ search: (prev) => ({ ...prev, mode: option }) })}
+                >
+                  {option === 'table' ? 'Table' : 'Heatmap'}
+                </button>
+              ))}
+            </div>
+            {search.mode === 'table' && <ColumnChooser table={table} onReset={resetLayout} />}
+            <ExportMenu
+              table={table}
+              filters={filters}
+              view={view}
+              total={total}
+              watchlistName={activeWatchlist?.name}
+            />
+          </div>
+
+          {selectedTickers.length > 0 && (
+            <div className="bulk-bar">
+              <span>
+                <strong>{numberFormatter.format(selectedTickers.length)}</strong> selected
+              </span>
+              {allMatchingSelected ? (
+                <span className="helper">All {numberFormatter.format(total)} matches</span>
+              ) : (
+                table.getIsAllPageRowsSelected() &&
+                total > data.length && (
+                  <button
+                    className="link-btn"
+                    onClick={() => selectAllMatching.mutate()}
+                    disabled={selectAllMatching.isPending}
+                  >
+                    {selectAllMatching.isPending
+                      ? 'Selecting…'
+                      : `Select all ${numberFormatter.format(total)} matching`}
+                  </button>
+                )
+              )}
+              <div className="bulk-actions">
+                <BulkWatchlistMenu tickers={selectedTickers} />
+                <ExportMenu
+                  table={table}
+                  filters={filters}
+                  view={view}
+                  total={total}
+                  selection={selectedTickers}
+                />
+                {selectedTickers.length >= 2 && selectedTickers.length <= MAX_COMPARE ? (
+                  <Link
+                    to="/stocks/compare"
+                    search={{ tickers: selectedTickers.join(',') }}
+                    className="ghost-btn"
+                  >
+                    Compare
+                  </Link>
+                ) : (
+                  <button
+                    className="ghost-btn"
+                    disabled
+                    title={`Select 2 to ${MAX_COMPARE} tickers to compare`}
+                  >
+                    Compare
+                  </button>
+                )}
+                <button
+                  className="ghost-btn"
+                  onClick={() => alertSelection.mutate()}
+                  disabled={alertSelection.isPending}
+                >
+                  {alertSelection.isPending ? 'Loading…' : 'Create alerts'}
+                </button>
+                <button className="ghost-btn" onClick={() => setRowSelection({})}>
+                  Clear
+                </button>
+              </div>
+              {(selectAllMatching.isError || alertSelection.isError) && (
+                <p className="error-text">
+                  {(selectAllMatching.error ?? alertSelection.error)?.message}
+                </p>
+              )}
+            </div>
+          )}
+
+          {search.mode === 'heatmap' ? (
+            rangeErrors.length ? (
+              <p className="empty-state">{rangeErrors.join(' ')} Fix the range to see matches.</p>
+            ) : heatmapQuery.isLoading ? (
+              <p className="empty-state">Loading market data…</p>
+            ) : heatmapQuery.isError ? (
+              <p className="empty-state">Unable to load market data.</p>
+            ) : (
+              <>
+                {total > (heatmapQuery.data?.data.length ?? 0) && (
+                  <p className="helper" role="status">
+                    Showing the {numberFormatter.format(heatmapQuery.data?.data.length ?? 0)}{' '}
+                    largest of {numberFormatter.format(total)} matches by market cap.
+                  </p>
+                )}
+                <StockHeatmap stocks={heatmapQuery.data?.data ?? []} />
+              </>
+            )
+          ) : (
+            <>
+              <div className="table-wrapper">
+                <table className="stocks-table" style={{ width: table.getTotalSize() }}>
+                  <thead>
+                    {table.getHeaderGroups().map((headerGroup) => (
+                      <tr key={headerGroup.id}>
+                        {headerGroup.headers.map((header) => (
+                          <th
+                            key={header.id}
+                            style={{ width: header.getSize() }}
+                            className={
+                              draggedColumn && draggedColumn !== header.column.id
+                                ? 'drop-target'
+                                : undefined
+                            }
+                            draggable={
+                              header.column.getCanHide() &&
+                              !table.getState().columnSizingInfo.isResizingColumn
+                            }
+                            onDragStart={(event) => {
+                              event.dataTransfer.effectAllowed = 'move'
+                              setDraggedColumn(header.column.id)
+                            }}
+                            onDragOver={(event) => {
+                              if (draggedColumn && header.column.getCanHide()) {
+                                event.preventDefault()
+                              }
+                            }}
+                            onDrop={(event) => {
+                              event.preventDefault()
+                              if (draggedColumn) moveColumn(draggedColumn, header.column.id)
+                              setDraggedColumn(null)
+                            }}
+                            onDragEnd={() => setDraggedColumn(null)}
+                          >
+                            {header.isPlaceholder ? null : header.column.getCanSort() ? (
+                              <button
+                                className="sort-btn"
+                                onClick={header.column.getToggleSortingHandler()}
+                              >
+                                {flexRender(
+                                  header.column.columnDef.header,
+                                  header.getContext(),
+                                )}
+                                {{
+                                  asc: ' ↑',
+                                  desc: ' ↓',
+                                }[header.column.getIsSorted() as string] ?? ''}
+                              </button>
+                            ) : (
+                              flexRender(header.column.columnDef.header, header.getContext())
+                            )}
+                            {header.column.getCanResize() && (
+                              <div
+                                className={
+                                  header.column.getIsResizing()
+                                    ? 'col-resizer resizing'
+                                    : 'col-resizer'
+                                }
+                                onMouseDown={header.getResizeHandler()}
+                                onTouchStart={header.getResizeHandler()}
+                                onDoubleClick={() => header.column.resetSize()}
+                              />
+                            )}
+                          </th>
+                        ))}
+                      </tr>
+                    ))}
+                  </thead>
+                  <tbody ref={tbodyRef}>
+                    {rangeErrors.length ? (
+                      <tr>
+                        <td colSpan={table.getVisibleLeafColumns().length} className="empty-state">
+                          {rangeErrors.join(' ')} Fix the range to see matches.
+                        </td>
+                      </tr>
+                    ) : query.isLoading ? (
+                      <tr>
+                        <td colSpan={table.getVisibleLeafColumns().length} className="empty-state">
+                          Loading market data…
+                        </td>
+                      </tr>
+                    ) : data.length === 0 ? (
+                      <tr>
+                        <td colSpan={table.getVisibleLeafColumns().length} className="empty-state">
+                          No tickers match those filters.
+                        </td>
+                      </tr>
+                    ) : (
+                      rows.map((row, index) => (
+                        <tr
+                          key={row.id}
+                          className={index === activeIndex ? 'clickable-row active-row' : 'clickable-row'}
+                          aria-selected={index === activeIndex}
+                          onClick={() =>
+                            navigate({
+                              to: '/stocks/$ticker',
+                              params: { ticker: row.original.ticker },
+                            })
+                          }
+                        >
+                          {row.getVisibleCells().map((cell) => {
+                            const flash = flashingColumns.has(cell.column.id)
+                              ? live.flashes[row.original.ticker]
+                              : undefined
+
+                            return (
+                              <td key={cell.id} className={flash ? `flash-${flash}` : undefined}>
+                                {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="table-footer">
+                <div className="pagination">
+                  <button
+                    className="ghost-btn"
+                    onClick={() => table.previousPage()}
+                    disabled={!table.getCanPreviousPage()}
+                  >
+                    Previous
+                  </button>
+                  <span>
+                    Page {table.getState().pagination.pageIndex + 1} of{' '}
+                    {pageCount}
+                  </span>
+                  <button
+                    className="ghost-btn"
+                    onClick={() => table.nextPage()}
+                    disabled={!table.getCanNextPage()}
+                  >
+                    Next
+                  </button>
+                </div>
+                <div className="page-size">
+                  <span>Rows</span>
+                  <select
+                    value={table.getState().pagination.pageSize}
+                    onChange={(event) => table.setPageSize(Number(event.target.value))}
+                  >
+                    {pageSizeOptions.map((size) => (
+                      <option key={size} value={size}>
+                        {size}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      {alertStocks.length > 0 && (
+        <AlertRuleDialog stocks={alertStocks} onClose={() => setAlertStocks([])} />
+      )}
+      {tradeStock && (
+        <OrderTicket
+          instrument={{
+            assetType: 'stock',
+            symbol: tradeStock.ticker,
+            name: tradeStock.company,
+            price: tradeStock.price,
+            currency: 'USD',
+          }}
+          onClose={() => setTradeStock(null)}
+        />
+      )}
+    </section>
+  )
+}
+
+const stockDetailSearchSchema = z.object({
+  range: z.enum(['1D', '1M', '1Y']).default('1M').catch('1M'),
+  chart: z.enum(['candles', 'line']).default('candles').catch('candles'),
+})
+
+type ChartMode = z.infer<typeof stockDetailSearchSchema>['chart']
+
+const CHART_WIDTH = 720
+const CHART_HEIGHT = 320
+const chartPadding = { top: 16, right: 64, bottom: 32, left: 12 }
+
+const formatBarTime = (time: string, range: HistoryRange) =>
+  range === '1D'
+    ? new Date(time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+    : new Date(time).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        ...(range === '1Y' ? { year: '2-digit' } : {}),
+      })
+
+function PriceChart({
+  bars,
+  range,
+  mode,
+}: {
+  bars: PriceBar[]
+  range: HistoryRange
+  mode: ChartMode
+}) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  const innerWidth = CHART_WIDTH - chartPadding.left - chartPadding.right
+  const innerHeight = CHART_HEIGHT - chartPadding.top - chartPadding.bottom
+  const step = innerWidth / Math.max(1, bars.length)
+  const low = Math.min(...bars.map((bar) => bar.low))
+  const high = Math.max(...bars.map((bar) => bar.high))
+  const margin = (high - low || high || 1) * 0.08
+  const min = low - margin
+  const max = high + margin
+
+  const x = (index: number) => chartPadding.left + (index + 0.5) * step
+  const y = (value: number) => chartPadding.top + ((max - value) / (max - min)) * innerHeight
+
+  const gridValues = Array.from({ length: 5 }, (_, index) => min + ((max - min) * index) / 4)
+  const labelIndexes = Array.from(
+    new Set([0, Math.floor((bars.length - 1) / 2), bars.length - 1]),
+  )
+  const linePath = bars
+    .map((bar, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(bar.close)}`)
+    .join(' ')
+
+  const hovered = hoverIndex === null ? undefined : bars[hoverIndex]
+
+  const handlePointer = (event: React.PointerEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const chartX = ((event.clientX - bounds.left) / bounds.width) * CHART_WIDTH
+    const index = Math.floor((chartX - chartPadding.left) / step)
+    setHoverIndex(index >= 0 && index < bars.length ? index : null)
+  }
+
+  return (
+    <div className="price-chart">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label={`Price history, ${range}`}
+        onPointerMove={handlePointer}
+        onPointerLeave={() => setHoverIndex(null)}
+      >
+        {gridValues.map((value) => (
+          <g key={value} className="chart-grid">
+            <line
+              x1={chartPadding.left}
+              x2={CHART_WIDTH - chartPadding.right}
+              y1={y(value)}
+              y2={y(value)}
+            />
+            <text x={CHART_WIDTH - chartPadding.right + 8} y={y(value) + 4}>
+              {numberFormatter.format(value)}
+            </text>
+          </g>
+        ))}
+        {labelIndexes.map((index) => (
+          <text
+            key={index}
+            className="chart-axis"
+            x={x(index)}
+            y={CHART_HEIGHT - 8}
+            textAnchor="middle"
+          >
+            {formatBarTime(bars[index].time, range)}
+          </text>
+        ))}
+        {mode === 'line' ? (
+          <path className="chart-line" d={linePath} />
+        ) : (
+          bars.map((bar, index) => {
+            const rising = bar.close >= bar.open
+            const bodyTop = y(Math.max(bar.open, bar.close))
+            const bodyHeight = Math.max(1, Math.abs(y(bar.open) - y(bar.close)))
+
+            return (
+              <g key={bar.time} className={rising ? 'candle up' : 'candle down'}>
+                <line x1={x(index)} x2={x(index)} y1={y(bar.high)} y2={y(bar.low)} />
+                <rect
+                  x={x(index) - step * 0.35}
+                  y={bodyTop}
+                  width={step * 0.7}
+                  height={bodyHeight}
+                />
+              </g>
+            )
+          })
+        )}
+        {hovered && hoverIndex !== null && (
+          <g className="chart-crosshair">
+            <line
+              x1={x(hoverIndex)}
+              x2={x(hoverIndex)}
+              y1={chartPadding.top}
+              y2={CHART_HEIGHT - chartPadding.bottom}
+            />
+            <line
+              x1={chartPadding.left}
+              x2={CHART_WIDTH - chartPadding.right}
+              y1={y(hovered.close)}
+              y2={y(hovered.close)}
+            />
+          </g>
+        )}
+      </svg>
+      {hovered && hoverIndex !== null && (
+        <div
+          className="chart-tooltip"
+          style={{
+            left: `${(x(hoverIndex) / CHART_WIDTH) * 100}%`,
+            top: `${(y(hovered.high) / CHART_HEIGHT) * 100}%`,
+          }}
+        >
+          <p className="panel-label">{formatBarTime(hovered.time, range)}</p>
+          <dl>
+            <dt>Open</dt>
+            <dd>{currencyFormatter.format(hovered.open)}</dd>
+            <dt>High</dt>
+            <dd>{currencyFormatter.format(hovered.high)}</dd>
+            <dt>Low</dt>
+            <dd>{currencyFormatter.format(hovered.low)}</dd>
+            <dt>Close</dt>
+            <dd>{currencyFormatter.format(hovered.close)}</dd>
+            <dt>Volume</dt>
+            <dd>{compactFormatter.format(hovered.volume)}</dd>
+          </dl>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StockDetailPage() {
+  const { ticker } = stockDetailRoute.useParams()
+  const { range, chart } = stockDetailRoute.useSearch()
+  const navigate = stockDetailRoute.useNavigate()
+
+  const stockQuery = useQuery({
+    queryKey: ['stock', ticker],
+    queryFn: () => fetchStock(ticker),
+  })
+
+  const historyQuery = useQuery({
+    queryKey: ['stock-history', { ticker, range }],
+    queryFn: () => fetchStockHistory(ticker, range),
+    enabled: stockQuery.isSuccess,
+    placeholderData: keepPreviousData,
+  })
+
+  const stock = stockQuery.data?.data
+  const bars = historyQuery.data?.data ?? []
+  const first = bars[0]
+  const last = bars[bars.length - 1]
+  const rangeChange = first && last ? ((last.close - first.open) / first.open) * 100 : 0
+
+  if (stockQuery.isLoading) {
+    return (
+      <section className="stock-detail">
+        <div className="bond-loading">
+          <p className="panel-label">Loading {ticker}</p>
+          <h3>Pulling the latest quote.</h3>
+        </div>
+      </section>
+    )
+  }
+
+  if (stockQuery.isError || !stock) {
+    return (
+      <section className="stock-detail">
+        <div className="bond-loading">
+          <p className="panel-label">Unable to load</p>
+          <h3>We could not find {ticker}.</h3>
+          <Link to="/" className="ghost-btn">
+            Back to the board
+          </Link>
+        </div>
+      </section>
+    )
+  }
+
+  return (
+    <section className="stock-detail">
+      <div className="stock-detail-header">
+        <div>
+          <Link to="/" className="back-link">
+            ← Live board
+          </Link>
+          <p className="eyebrow">{stock.sector}</p>
+          <h1>
+            {stock.company} <span className="ticker">{stock.ticker}</span>
+          </h1>
+        </div>
+        <div className="stock-quote">
+          <p className="summary-metric">{currencyFormatter.format(stock.price)}</p>
+          <span className={stock.changePercent >= 0 ? 'trend up' : 'trend down'}>
+            {formatPercent(stock.changePercent)} today
+          </span>
+        </div>
+      </div>
+
+      <div className="stock-detail-grid">
+        <div className="chart-card">
+          <div className="chart-toolbar">
+            <div className="segmented">
+              {historyRanges.map((option) => (
+                <button
+                  key={option}
+                  className={option === range ? 'active' : ''}
+                  onClick={() => navigate({ search: (prev) => ({ ...prev, range: option }) })}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <div className="segmented">
+              {(['candles', 'line'] as const).map((option) => (
+                <button
+                  key={option}
+                  className={option === chart ? 'active' : ''}
+                  onClick={() => navigate({ search: (prev) => ({ ...prev, chart: option }) })}
+                >
+                  {option === 'candles' ? 'Candles' : 'Line'}
+                </button>
+              ))}
+            </div>
+            {first && last && (
+              <span className={rangeChange >= 0 ? 'trend up' : 'trend down'}>
+                {formatPercent(rangeChange)} over {range}
+              </span>
+            )}
+          </div>
+          {historyQuery.isLoading ? (
+            <p className="empty-state">Loading price history…</p>
+          ) : historyQuery.isError ? (
+            <p className="empty-state">Unable to load price history.</p>
+          ) : bars.length === 0 ? (
+            <p className="empty-state">No trades in this range.</p>
+          ) : (
+            <PriceChart bars={bars} range={range} mode={chart} />
+          )}
+        </div>
+
+        <div className="bond-card stock-facts">
+          <div className="bond-metrics">
+            <div>
+              <p className="panel-label">Market cap</p>
+              <p className="metric-value">${compactFormatter.format(stock.marketCap)}</p>
+            </div>
+            <div>
+              <p className="panel-label">Volume</p>
+              <p className="metric-value">{compactFormatter.format(stock.volume)}</p>
+            </div>
+            <div>
+              <p className="panel-label">Analyst rating</p>
+              <p className="metric-value">{stock.rating}</p>
+            </div>
+            <div>
+              <p className="panel-label">Sector</p>
+              <p className="metric-value">{stock.sector}</p>
+            </div>
+          </div>
+          <div className="bond-divider" />
+          <div className="bond-details">
+            <div>
+              <p className="panel-label">Range high</p>
+              <p>{bars.length ? currencyFormatter.format(Math.max(...bars.map((bar) => bar.high))) : '—'}</p>
+            </div>
+            <div>
+              <p className="panel-label">Range low</p>
+              <p>{bars.length ? currencyFormatter.format(Math.min(...bars.map((bar) => bar.low))) : '—'}</p>
+            </div>
+            <div>
+              <p className="panel-label">Last updated</p>
+              <p>{formatClockTime(stock.lastUpdated)}</p>
+            </div>
+            <div>
+              <p className="panel-label">Listing id</p>
+              <p>{stock.id}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+const MAX_COMPARE = 4
+
+const compareColors = ['#a96e3e', '#216352', '#3b5b92', '#9c3a2b']
+
+const compareSearchSchema = z.object({
+  tickers: z.string().default('').catch(''),
+  range: z.enum(['1D', '1M', '1Y']).default('1M').catch('1M'),
+})
+
+const parseTickers = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(',')
+        .map((ticker) => ticker.trim().toUpperCase())
+        .filter(Boolean),
+    ),
+  ).slice(0, MAX_COMPARE)
+
+const ratingScore: Record<Stock['rating'], number> = { Buy: 2, Hold: 1, Sell: 0 }
+
+// `better` marks which direction wins for best/worst highlighting; fields
+// without one are descriptive only.
+const compareFields: {
+  id: StockColumnId
+  label: string
+  better?: (stock: Stock) => number
+}[] = [
+  { id: 'company', label: 'Company' },
+  { id: 'sector', label: 'Sector' },
+  { id: 'price', label: 'Price' },
+  { id: 'changePercent', label: 'Daily change', better: (stock) => stock.changePercent },
+  { id: 'volume', label: 'Volume', better: (stock) => stock.volume },
+  { id: 'marketCap', label: 'Market cap', better: (stock) => stock.marketCap },
+  { id: 'rating', label: 'Rating', better: (stock) => ratingScore[stock.rating] },
+  { id: 'lastUpdated', label: 'Last updated' },
+]
+
+const rankClass = (values: (number | undefined)[], index: number) => {
+  const known = values.filter((value) => value !== undefined)
+  const value = values[index]
+  if (known.length < 2 || value === undefined) return undefined
+
+  const best = Math.max(...known)
+  const worst = Math.min(...known)
+  if (best === worst) return undefined
+  return value === best ? 'compare-best' : value === worst ? 'compare-worst' : undefined
+}
+
+type CompareSeries = { ticker: string; color: string; bars: PriceBar[] }
+
+function CompareChart({ series, range }: { series: CompareSeries[]; range: HistoryRange }) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  // Every series is rebased to 100 at its first open so different price
+  // levels share one axis.
+  const lines = series.map((item) => ({
+    ...item,
+    values: item.bars.map((bar) => (bar.close / item.bars[0].open) * 100),
+  }))
+  const length = Math.max(1, ...lines.map((line) => line.values.length))
+  const allValues = lines.flatMap((line) => line.values)
+  const low = Math.min(100, ...allValues)
+  const high = Math.max(100, ...allValues)
+  const margin = (high - low || 1) * 0.08
+  const min = low - margin
+  const max = high + margin
+
+  const innerWidth = CHART_WIDTH - chartPadding.left - chartPadding.right
+  const innerHeight = CHART_HEIGHT - chartPadding.top - chartPadding.bottom
+  const step = innerWidth / length
+  const x = (index: number) => chartPadding.left + (index + 0.5) * step
+  const y = (value: number) => chartPadding.top + ((max - value) / (max - min)) * innerHeight
+
+  const gridValues = Array.from({ length: 5 }, (_, index) => min + ((max - min) * index) / 4)
+  const reference = lines.find((line) => line.bars.length === length)?.bars ?? []
+  const labelIndexes = Array.from(new Set([0, Math.floor((length - 1) / 2), length - 1]))
+
+  const handlePointer = (event: React.PointerEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const chartX = ((event.clientX - bounds.left) / bounds.width) * CHART_WIDTH
+    const index = Math.floor((chartX - chartPadding.left) / step)
+    setHoverIndex(index >= 0 && index < length ? index : null)
+  }
+
+  return (
+    <div className="price-chart">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label={`Normalised price history, ${range}`}
+        onPointerMove={handlePointer}
+        onPointerLeave={() => setHoverIndex(null)}
+      >
+        {gridValues.map((value) => (
+          <g key={value} className="chart-grid">
+            <line
+              x1={chartPadding.left}
+              x2={CHART_WIDTH - chartPadding.right}
+              y1={y(value)}
+              y2={y(value)}
+            />
+            <text x={CHART_WIDTH - chartPadding.right + 8} y={y(value) + 4}>
+              {numberFormatter.format(value)}
+            </text>
+          </g>
+        ))}
+        <line
+          className="chart-baseline"
+          x1={chartPadding.left}
+          x2={CHART_WIDTH - chartPadding.right}
+          y1={y(100)}
+          y2={y(100)}
+        />
+        {reference.length > 0 &&
+          labelIndexes.map((index) => (
+            <text
+              key={index}
+              className="chart-axis"
+              x={x(index)}
+              y={CHART_HEIGHT - 8}
+              textAnchor="middle"
+            >
+              {formatBarTime(reference[index].time, range)}
+            </text>
+          ))}
+        {lines.map((line) => (
+          <path
+            key={line.ticker}
+            className="chart-line"
+            style={{ stroke: line.color }}
+            d={line.values
+              .map((value, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(value)}`)
+              .join(' ')}
+          />
+        ))}
+        {hoverIndex !== null && (
+          <g className="chart-crosshair">
+            <line
+              x1={x(hoverIndex)}
+              x2={x(hoverIndex)}
+              y1={chartPadding.top}
+              y2={CHART_HEIGHT - chartPadding.bottom}
+            />
+          </g>
+        )}
+      </svg>
+      {hoverIndex !== null && (
+        <div
+          className="chart-tooltip"
+          style={{ left: `${(x(hoverIndex) / CHART_WIDTH) * 100}%`, top: '8%' }}
+        >
+          {reference[hoverIndex] && (
+            <p className="panel-label">{formatBarTime(reference[hoverIndex].time, range)}</p>
+          )}
+          <dl>
+            {lines.map((line) => (
+              <div key={line.ticker} style={{ display: 'contents' }}>
+                <dt style={{ color: line.color }}>{line.ticker}</dt>
+                <dd>
+                  {line.values[hoverIndex] === undefined
+                    ? '—'
+                    : formatPercent(line.values[hoverIndex] - 100)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StockComparePage() {
+  const search = compareRoute.useSearch()
+  const navigate = compareRoute.useNavigate()
+  const tickers = useMemo(() => parseTickers(search.tickers), [search.tickers])
+
+  const stockQueries = useQueries({
+    queries: tickers.map((ticker) => ({
+      queryKey: ['stock', ticker],
+      queryFn: () => fetchStock(ticker),
+    })),
+  })
+
+  const historyQueries = useQueries({
+    queries: tickers.map((ticker) => ({
+      queryKey: ['stock-history', { ticker, range: search.range }],
+      queryFn: () => fetchStockHistory(ticker, search.range),
+      placeholderData: keepPreviousData,
+    })),
+  })
+
+  const removeTicker = (ticker: string) =>
+    navigate({
+      search: (prev) => ({
+        ...prev,
+        tickers: tickers.filter((item) => item !== ticker).join(','),
+      }),
+    })
+
+  if (tickers.length < 2) {
+    return (
+      <section className="stock-detail">
+        <div className="bond-loading">
+          <p className="panel-label">Compare</p>
+          <h3>Pick at least two tickers on the board to compare them.</h3>
+          <Link to="/" className="ghost-btn">
+            Back to the board
+          </Link>
+        </div>
+      </section>
+    )
+  }
+
+  const stocks = stockQueries.map((query) => query.data?.data)
+  const missing = tickers.filter((_, index) => stockQueries[index].isError)
+  const series = tickers
+    .map((ticker, index) => ({
+      ticker,
+      color: compareColors[index],
+      bars: historyQueries[index].data?.data ?? [],
+    }))
+    .filter((item) => item.bars.length > 0)
+
+  const rangeReturns = tickers.map((_, index) => {
+    const bars = historyQueries[index].data?.data ?? []
+    return bars.length
+      ? ((bars[bars.length - 1].close - bars[0].open) / bars[0].open) * 100
+      : undefined
+  })
+  const baseReturn = rangeReturns[0]
+
+  // Percent difference of each normalised series against the first ticker,
+  // i.e. how much more (or less) the same dollar would be worth today.
+  const differences = rangeReturns.map((value, index) =>
+    index === 0 || value === undefined || baseReturn === undefined
+      ? undefined
+      : ((100 + value) / (100 + baseReturn) - 1) * 100,
+  )
+
+  return (
+    <section className="stock-detail">
+      <div className="stock-detail-header">
+        <div>
+          <Link to="/" className="back-link">
+            ← Live board
+          </Link>
+          <p className="eyebrow">Compare</p>
+          <h1>{tickers.join(' vs ')}</h1>
+        </div>
+        <div className="compare-chips">
+          {tickers.map((ticker, index) => (
+            <span key={ticker} className="pill" style={{ color: compareColors[index] }}>
+              {ticker}
+              <button
+                className="chip-remove"
+                aria-label={`Remove ${ticker}`}
+                onClick={() => removeTicker(ticker)}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="error-text">Could not load {missing.join(', ')}.</p>
+      )}
+
+      <div className="chart-card">
+        <div className="chart-toolbar">
+          <div className="segmented">
+            {historyRanges.map((option) => (
+              <button
+                key={option}
+                className={option === search.range ? 'active' : ''}
+                onClick={() => navigate({ search: (prev) => ({ ...prev, range: option }) })}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <span className="helper">Rebased to 100 at the start of the range</span>
+        </div>
+        {historyQueries.some((query) => query.isLoading) ? (
+          <p className="empty-state">Loading price history…</p>
+        ) : series.length === 0 ? (
+          <p className="empty-state">No trades in this range.</p>
+        ) : (
+          <CompareChart series={series} range={search.range} />
+        )}
+      </div>
+
+      <div className="table-wrapper">
+        <table className="stocks-table compare-table">
+          <thead>
+            <tr>
+              <th>Field</th>
+              {tickers.map((ticker, index) => (
+                <th key={ticker}>
+                  <Link
+                    to="/stocks/$ticker"
+                    params={{ ticker }}
+                    className="ticker"
+                    style={{ color: compareColors[index] }}
+                  >
+                    {ticker}
+                  </Link>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {compareFields.map((field) => {
+              const values = stocks.map((stock) =>
+                stock && field.better ? field.better(stock) : undefined,
+              )
+              return (
+                <tr key={field.id}>
+                  <th scope="row">{field.label}</th>
+                  {stocks.map((stock, index) => (
+                    <td key={tickers[index]} className={rankClass(values, index)}>
+                      {stock ? formatStockField(field.id, stock) : '—'}
+                    </td>
+                  ))}
+                </tr>
+              )
+            })}
+            <tr>
+              <th scope="row">{search.range} return</th>
+              {rangeReturns.map((value, index) => (
+                <td key={tickers[index]} className={rankClass(rangeReturns, index)}>
+                  {value === undefined ? '—' : formatPercent(value)}
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <th scope="row">vs {tickers[0]}</th>
+              {differences.map((value, index) => (
+                <td key={tickers[index]}>
+                  {index === 0 ? (
+                    'Baseline'
+                  ) : value === undefined ? (
+                    '—'
+                  ) : (
+                    <span className={value >= 0 ? 'trend up' : 'trend down'}>
+                      {formatPercent(value)}
+                    </span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
+
+type Holding = {
+  id: string
+  assetType: 'stock' | 'bond'
+  symbol: string
+  quantity: number
+  costBasis: number
+  tradeDate: string
+  createdAt: string
+  updatedAt: string
+}
+
+type Position = Holding & {
+  name: string
+  sector: string
+  currency: Bond['currency']
+  price: number
+  marketValue: number
+  costValue: number
+  unrealizedPnl: number
+  unrealizedPnlPercent: number
+  dayChange: number
+}
+
+type HoldingInput = Pick<Holding, 'assetType' | 'symbol' | 'quantity' | 'costBasis' | 'tradeDate'>
+
+const fetchPortfolio = async () => {
+  const response = await fetch('/api/portfolio')
+
+  if (!response.ok) {
+    throw new Error('Unable to load portfolio')
+  }
+
+  return (await response.json()) as {
+    data: Position[]
+    meta: {
+      total: number
+      currency: 'USD'
+      marketValue: number
+      costValue: number
+      unrealizedPnl: number
+      unrealizedPnlPercent: number
+      dayChange: number
+      dayChangePercent: number
+      allocation: { sector: string; marketValue: number; weight: number }[]
+    }
+  }
+}
+
+const createHolding = async (holding: HoldingInput) => {
+  const response = await fetch('/api/portfolio', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(holding),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to add position')
+  }
+
+  return (await response.json()) as { data: Position }
+}
+
+const updateHolding = async ({ id, ...changes }: HoldingInput & { id: string }) => {
+  const response = await fetch(`/api/portfolio/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to update position')
+  }
+
+  return (await response.json()) as { data: Position }
+}
+
+const deleteHolding = async (id: string) => {
+  const response = await fetch(`/api/portfolio/${id}`, { method: 'DELETE' })
+
+  if (!response.ok) {
+    throw new Error('Unable to delete position')
+  }
+}
+
+const formatMoney = (value: number, currency: Bond['currency'] = 'USD') =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 2,
+  }).format(value)
+
+const formatSignedMoney = (value: number, currency: Bond['currency'] = 'USD') =>
+  `${value > 0 ? '+' : ''}${formatMoney(value, currency)}`
+
+const positiveAmount = (label: string) =>
+  z
+    .string()
+    .min(1, `${label} is required`)
+    .refine(
+      (value) => {
+        const amount = parseAmount(value)
+        return amount !== undefined && amount > 0
+      },
+      { message: `${label} must be a positive number` },
+    )
+
+const holdingSchema = z.object({
+  assetType: z.enum(['stock', 'bond'], 'Choose an asset type'),
+  symbol: z.string().min(1, 'Choose an instrument'),
+  quantity: positiveAmount('Quantity'),
+  costBasis: positiveAmount('Cost basis'),
+  tradeDate: z
+    .string()
+    .min(1, 'Trade date is required')
+    .refine((value) => Date.parse(value) <= Date.now(), {
+      message: 'Trade date cannot be in the future',
+    }),
+})
+
+type HoldingFormValues = z.infer<typeof holdingSchema>
+
+const tickerListView: StocksView = { sort: 'ticker', order: 'asc', page: 1, pageSize: 500 }
+
+function HoldingForm({ holding, onDone }: { holding?: Position; onDone: () => void }) {
+  const queryClient = useQueryClient()
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    setValue,
+    formState: { errors },
+  } = useForm<HoldingFormValues>({
+    resolver: zodResolver(holdingSchema),
+    defaultValues: holding
+      ? {
+          assetType: holding.assetType,
+          symbol: holding.symbol,
+          quantity: String(holding.quantity),
+          costBasis: String(holding.costBasis),
+          tradeDate: holding.tradeDate,
+        }
+      : {
+          assetType: 'stock',
+          symbol: '',
+          quantity: '',
+          costBasis: '',
+          tradeDate: new Date().toISOString().slice(0, 10),
+        },
+  })
+
+  const assetType = useWatch({ control, name: 'assetType' })
+
+  const stocksQuery = useQuery({
+    queryKey: ['stocks', defaultFilters, tickerListView],
+    queryFn: ({ signal }) => fetchStocks(defaultFilters, tickerListView, signal),
+    enabled: assetType === 'stock',
+  })
+
+  const bondsQuery = useQuery({
+    queryKey: ['bond-options'],
+    queryFn: fetchBondOptions,
+    enabled: assetType === 'bond',
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: (values: HoldingInput) =>
+      holding ? updateHolding({ id: holding.id, ...values }) : createHolding(values),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portfolio'] })
+      onDone()
+    },
+  })
+
+  const onSubmit = (values: HoldingFormValues) => {
+    saveMutation.mutate({
+      assetType: values.assetType,
+      symbol: values.symbol,
+      quantity: parseAmount(values.quantity) ?? 0,
+      costBasis: parseAmount(values.costBasis) ?? 0,
+      tradeDate: values.tradeDate,
+    })
+  }
+
+  const instruments =
+    assetType === 'stock'
+      ? (stocksQuery.data?.data ?? []).map((stock) => ({
+          id: stock.ticker,
+          label: `${stock.ticker} · ${stock.company}`,
+        }))
+      : (bondsQuery.data?.data ?? []).map((bond) => ({
+          id: bond.id,
+          label: `${bond.name} · ${bond.rating}`,
+        }))
+
+  return (
+    <form className="services-form" onSubmit={handleSubmit(onSubmit)}>
+      <div className="form-header">
+        <div>
+          <p className="panel-label">{holding ? 'Edit position' : 'New position'}</p>
+          <h2>{holding ? holding.name : 'Record a trade'}</h2>
+        </div>
+        {holding && (
+          <button type="button" className="ghost-btn" onClick={onDone}>
+            Cancel
+          </button>
+        )}
+      </div>
+      <div className="form-grid">
+        <div className="form-group">
+          <label htmlFor="holding-type">Asset</label>
+          <select
+            id="holding-type"
+            {...register('assetType', {
+              onChange: () => setValue('symbol', ''),
+            })}
+          >
+            <option value="stock">Stock</option>
+            <option value="bond">Bond</option>
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="holding-symbol">Instrument</label>
+          <select
+            id="holding-symbol"
+            {...register('symbol')}
+            className={errors.symbol ? 'error' : ''}
+          >
+            <option value="">
+              {stocksQuery.isLoading || bondsQuery.isLoading ? 'Loading…' : 'Choose one'}
+            </option>
+            {instruments.map((instrument) => (
+              <option key={instrument.id} value={instrument.id}>
+                {instrument.label}
+              </option>
+            ))}
+          </select>
+          {errors.symbol && <p className="error-text">{errors.symbol.message}</p>}
+        </div>
+        <div className="form-group">
+          <label htmlFor="holding-quantity">
+            {assetType === 'bond' ? 'Face amount' : 'Shares'}
+          </label>
+          <input
+            id="holding-quantity"
+            type="text"
+            placeholder={assetType === 'bond' ? '50K' : '100'}
+            {...register('quantity')}
+            className={errors.quantity ? 'error' : ''}
+          />
+          {errors.quantity && <p className="error-text">{errors.quantity.message}</p>}
+        </div>
+        <div className="form-group">
+          <label htmlFor="holding-cost">
+            {assetType === 'bond' ? 'Cost (% of par)' : 'Cost per share'}
+          </label>
+          <input
+            id="holding-cost"
+            type="number"
+            inputMode="decimal"
+            step="any"
+            {...register('costBasis')}
+            className={errors.costBasis ? 'error' : ''}
+          />
+          {errors.costBasis && <p className="error-text">{errors.costBasis.message}</p>}
+        </div>
+        <div className="form-group full-width">
+          <label htmlFor="holding-date">Trade date</label>
+          <input
+            id="holding-date"
+            type="date"
+            {...register('tradeDate')}
+            className={errors.tradeDate ? 'error' : ''}
+          />
+          {errors.tradeDate && <p className="error-text">{errors.tradeDate.message}</p>}
+        </div>
+      </div>
+      {saveMutation.isError && <p className="error-text">{saveMutation.error.message}</p>}
+      <div className="form-actions">
+        <button type="submit" className="primary-btn" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving…' : holding ? 'Save changes' : 'Add position'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+type Order = {
+  id: string
+  assetType: 'stock' | 'bond'
+  symbol: string
+  name: string
+  side: 'buy' | 'sell'
+  quantity: number
+  orderType: 'market' | 'limit' | 'stop'
+  limitPrice: number | null
+  timeInForce: 'day' | 'gtc' | 'ioc'
+  status: 'working' | 'filled' | 'cancelled'
+  fillPrice: number | null
+  createdAt: string
+  filledAt: string | null
+  cancelledAt: string | null
+  reason: string | null
+}
+
+type OrderInput = Pick<
+  Order,
+  'assetType' | 'symbol' | 'side' | 'quantity' | 'orderType' | 'limitPrice' | 'timeInForce'
+>
+
+type OrderInstrument = {
+  assetType: Order['assetType']
+  symbol: string
+  name: string
+  price: number
+  currency: Bond['currency']
+}
+
+const ORDER_POLL_INTERVAL = 3000
+
+const fetchOrders = async () => {
+  const response = await fetch('/api/orders')
+
+  if (!response.ok) {
+    throw new Error('Unable to load orders')
+  }
+
+  return (await response.json()) as {
+    data: Order[]
+    meta: { total: number; counts: Record<Order['status'], number> }
+  }
+}
+
+const placeOrder = async (order: OrderInput) => {
+  const response = await fetch('/api/orders', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(order),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to place order')
+  }
+
+  return (await response.json()) as { data: Order }
+}
+
+const cancelOrder = async (id: string) => {
+  const response = await fetch(`/api/orders/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: 'cancelled' }),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to cancel order')
+  }
+
+  return (await response.json()) as { data: Order }
+}
+
+const orderTypeLabels: Record<Order['orderType'], string> = {
+  market: 'Market',
+  limit: 'Limit',
+  stop: 'Stop',
+}
+
+const timeInForceLabels: Record<Order['timeInForce'], string> = {
+  day: 'Day',
+  gtc: 'Good till cancelled',
+  ioc: 'Immediate or cancel',
+}
+
+// Bonds trade in face amount at a price quoted as a percentage of par.
+const formatOrderPrice = (assetType: Order['assetType'], price: number) =>
+  assetType === 'bond' ? `${numberFormatter.format(price)}%` : currencyFormatter.format(price)
+
+const orderSchema = z
+  .object({
+    side: z.enum(['buy', 'sell'], 'Choose a side'),
+    quantity: positiveAmount('Quantity'),
+    orderType: z.enum(['market', 'limit', 'stop'], 'Choose an order type'),
+    limitPrice: z.string().optional(),
+    timeInForce: z.enum(['day', 'gtc', 'ioc'], 'Choose a time in force'),
+  })
+  .superRefine((values, context) => {
+    if (values.orderType !== 'market' && !(Number(values.limitPrice) > 0)) {
+      context.addIssue({
+        code: 'custom',
+        path: ['limitPrice'],
+        message: `${orderTypeLabels[values.orderType]} price must be a positive number`,
+      })
+    }
+  })
+
+type OrderFormValues = z.infer<typeof orderSchema>
+
+function OrderTicket({
+  instrument,
+  onClose,
+}: {
+  instrument: OrderInstrument
+  onClose: () => void
+}) {
+  const queryClient = useQueryClient()
+  const bond = instrument.assetType === 'bond'
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    reset,
+    formState: { errors },
+  } = useForm<OrderFormValues>({
+    resolver: zodResolver(orderSchema),
+    defaultValues: {
+      side: 'buy',
+      quantity: '',
+      orderType: 'market',
+      limitPrice: instrument.price.toFixed(2),
+      timeInForce: 'day',
+    },
+  })
+
+  const side = useWatch({ control, name: 'side' })
+  const orderType = useWatch({ control, name: 'orderType' })
+  const quantity = parseAmount(useWatch({ control, name: 'quantity' }) ?? '')
+  const limitPrice = Number(useWatch({ control, name: 'limitPrice' }))
+
+  const orderMutation = useMutation({
+    mutationFn: placeOrder,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['orders'] }),
+  })
+
+  const onSubmit = (values: OrderFormValues) => {
+    orderMutation.mutate({
+      assetType: instrument.assetType,
+      symbol: instrument.symbol,
+      side: values.side,
+      quantity: parseAmount(values.quantity) ?? 0,
+      orderType: values.orderType,
+      limitPrice: values.orderType === 'market' ? null : Number(values.limitPrice),
+      timeInForce: values.timeInForce,
+    })
+  }
+
+  const estimatePrice = orderType === 'market' || !(limitPrice > 0) ? instrument.price : limitPrice
+  const estimate =
+    quantity !== undefined && quantity > 0
+      ? (quantity * estimatePrice) / (bond ? 100 : 1)
+      : undefined
+  const placed = orderMutation.data?.data
+  const placedSize = placed
+    ? `${numberFormatter.format(placed.quantity)} ${bond ? 'face' : 'shares'}`
+    : ''
+
+  return (
+    <div className="dialog-backdrop drawer-backdrop" onClick={onClose}>
+      <aside
+        className="drawer"
+        role="dialog"
+        aria-label={`Trade ${instrument.name}`}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="form-header">
+          <div>
+            <p className="panel-label">Trade ticket</p>
+            <h2>{bond ? instrument.name : instrument.symbol}</h2>
+            <p className="helper">
+              {bond ? instrument.currency : instrument.name} · last{' '}
+              {formatOrderPrice(instrument.assetType, instrument.price)}
+            </p>
+          </div>
+          <button type="button" className="ghost-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        {placed ? (
+          <div className="order-confirmation">
+            <p className={`order-status ${placed.status}`}>{placed.status}</p>
+            <h3>
+              {placed.status === 'filled'
+                ? `${placed.side === 'buy' ? 'Bought' : 'Sold'} ${placedSize} at ${formatOrderPrice(placed.assetType, placed.fillPrice ?? instrument.price)}`
+                : `${placed.side === 'buy' ? 'Buy' : 'Sell'} order for ${placedSize} ${placed.status === 'working' ? 'is working' : 'was cancelled'}`}
+            </h3>
+            <p className="lead">
+              {placed.status === 'filled'
+                ? 'The order filled against the current mock price.'
+                : placed.status === 'working'
+                  ? `Working until the price reaches ${formatOrderPrice(placed.assetType, placed.limitPrice ?? 0)}.`
+                  : (placed.reason ?? 'The order was cancelled.')}
+            </p>
+            <div className="form-actions">
+              <button
+                type="button"
+                className="ghost-btn"
+                onClick={() => {
+                  orderMutation.reset()
+                  reset()
+                }}
+              >
+                New order
+              </button>
+              <Link to="/orders" className="primary-btn">
+                Open blotter
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <form className="services-form" onSubmit={handleSubmit(onSubmit)}>
+            <div className="segmented side-toggle">
+              {(['buy', 'sell'] as const).map((option) => (
+                <label key={option} className={option === side ? `active ${option}` : ''}>
+                  <input type="radio" value={option} {...register('side')} />
+                  {option === 'buy' ? 'Buy' : 'Sell'}
+                </label>
+              ))}
+            </div>
+            <div className="form-grid">
+              <div className="form-group">
+                <label htmlFor="order-quantity">{bond ? 'Face amount' : 'Shares'}</label>
+                <input
+                  id="order-quantity"
+                  type="text"
+                  placeholder={bond ? '250K' : '100'}
+                  {...register('quantity')}
+                  className={errors.quantity ? 'error' : ''}
+                />
+                {errors.quantity && <p className="error-text">{errors.quantity.message}</p>}
+              </div>
+              <div className="form-group">
+                <label htmlFor="order-type">Order type</label>
+                <select id="order-type" {...register('orderType')}>
+                  {(['market', 'limit', 'stop'] as const).map((option) => (
+                    <option key={option} value={option}>
+                      {orderTypeLabels[option]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {orderType !== 'market' && (
+                <div className="form-group">
+                  <label htmlFor="order-price">
+                    {orderTypeLabels[orderType]} price {bond ? '(% of par)' : '(USD)'}
+                  </label>
+                  <input
+                    id="order-price"
+                    type="number"
+                    inputMode="decimal"
+                    step="any"
+                    {...register('limitPrice')}
+                    className={errors.limitPrice ? 'error' : ''}
+                  />
+                  {errors.limitPrice && (
+                    <p className="error-text">{errors.limitPrice.message}</p>
+                  )}
+                </div>
+              )}
+              <div className="form-group">
+                <label htmlFor="order-tif">Time in force</label>
+                <select id="order-tif" {...register('timeInForce')}>
+                  {(['day', 'gtc', 'ioc'] as const).map((option) => (
+                    <option key={option} value={option}>
+                      {timeInForceLabels[option]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="helper">
+              Estimated {side === 'buy' ? 'cost' : 'proceeds'}:{' '}
+              {estimate === undefined ? '—' : formatMoney(estimate, instrument.currency)}
+            </p>
+            {orderMutation.isError && (
+              <p className="error-text">{orderMutation.error.message}</p>
+            )}
+            <div className="form-actions">
+              <button
+                type="submit"
+                className={`primary-btn ${side}`}
+                disabled={orderMutation.isPending}
+              >
+                {orderMutation.isPending
+                  ? 'Sending…'
+                  : `${side === 'buy' ? 'Buy' : 'Sell'} ${bond ? 'bond' : instrument.symbol}`}
+              </button>
+            </div>
+          </form>
+        )}
+      </aside>
+    </div>
+  )
+}
+
+const blotterSearchSchema = z.object({
+  status: z
+    .enum(['all', 'working', 'filled', 'cancelled'])
+    .default('all')
+    .catch('all'),
+})
+
+function BlotterPage() {
+  const queryClient = useQueryClient()
+  const { status } = blotterRoute.useSearch()
+  const navigate = blotterRoute.useNavigate()
+
+  const ordersQuery = useQuery({
+    queryKey: ['orders'],
+    queryFn: fetchOrders,
+    refetchInterval: ORDER_POLL_INTERVAL,
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: cancelOrder,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['orders'] }),
+  })
+
+  const orders = (ordersQuery.data?.data ?? []).filter(
+    (order) => status === 'all' || order.status === status,
+  )
+  const counts = ordersQuery.data?.meta.counts
+
+  return (
+    <section className="alerts-layout">
+      <div>
+        <p className="eyebrow">Blotter</p>
+        <h1>Orders sent today.</h1>
+        <p className="lead">
+          Tickets from the live board and the bond dossier fill against mock prices.
+          Working orders fill as prices tick through their limits.
+        </p>
+      </div>
+
+      <div className="chart-toolbar">
+        <div className="segmented">
+          {(['all', 'working', 'filled', 'cancelled'] as const).map((option) => (
+            <button
+              key={option}
+              className={option === status ? 'active' : ''}
+              onClick={() => navigate({ search: { status: option } })}
+            >
+              {option === 'all' ? 'All' : option[0].toUpperCase() + option.slice(1)}
+              {counts && option !== 'all' ? ` (${counts[option]})` : ''}
+            </button>
+          ))}
+        </div>
+        {cancelMutation.isError && (
+          <p className="error-text">{cancelMutation.error.message}</p>
+        )}
+      </div>
+
+      <div className="table-wrapper">
+        <table className="stocks-table blotter-table">
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Instrument</th>
+              <th>Side</th>
+              <th>Quantity</th>
+              <th>Type</th>
+              <th>TIF</th>
+              <th>Status</th>
+              <th>Fill</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {ordersQuery.isLoading ? (
+              <tr>
+                <td colSpan={9} className="empty-state">
+                  Loading orders…
+                </td>
+              </tr>
+            ) : ordersQuery.isError ? (
+              <tr>
+                <td colSpan={9} className="empty-state">
+                  Unable to load orders.
+                </td>
+              </tr>
+            ) : orders.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="empty-state">
+                  No {status === 'all' ? '' : `${status} `}orders yet. Use Trade on the live
+                  board or the bond dossier.
+                </td>
+              </tr>
+            ) : (
+              orders.map((order) => (
+                <tr key={order.id}>
+                  <td>{formatClockTime(order.createdAt)}</td>
+                  <td title={order.name}>
+                    <span className="ticker">
+                      {order.assetType === 'stock' ? order.symbol : order.name}
+                    </span>
+                  </td>
+                  <td>
+                    <span className={order.side === 'buy' ? 'trend up' : 'trend down'}>
+                      {order.side === 'buy' ? 'Buy' : 'Sell'}
+                    </span>
+                  </td>
+                  <td>
+                    {numberFormatter.format(order.quantity)}
+                    {order.assetType === 'bond' ? ' face' : ''}
+                  </td>
+                  <td>
+                    {orderTypeLabels[order.orderType]}
+                    {order.limitPrice !== null &&
+                      ` @ ${formatOrderPrice(order.assetType, order.limitPrice)}`}
+                  </td>
+                  <td>{order.timeInForce.toUpperCase()}</td>
+                  <td>
+                    <span className={`order-status ${order.status}`} title={order.reason ?? ''}>
+                      {order.status}
+                    </span>
+                  </td>
+                  <td>
+                    {order.fillPrice === null
+                      ? '—'
+                      : formatOrderPrice(order.assetType, order.fillPrice)}
+                  </td>
+                  <td>
+                    {order.status === 'working' && (
+                      <button
+                        className="row-action"
+                        disabled={cancelMutation.isPending}
+                        onClick={() => cancelMutation.mutate(order.id)}
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
+
+function PortfolioPage() {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState<Position | null>(null)
+
+  const portfolioQuery = useQuery({
+    queryKey: ['portfolio'],
+    queryFn: fetchPortfolio,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteHolding,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['portfolio'] }),
+  })
+
+  const positions = portfolioQuery.data?.data ?? []
+  const summary = portfolioQuery.data?.meta
+
+  return (
+    <section className="portfolio-layout">
+      <div className="portfolio-main">
+        <div>
+          <p className="eyebrow">Portfolio</p>
+          <h1>Positions, valued live.</h1>
+          <p className="lead">
+            Stocks are marked at the board price; bonds at their quoted price as a
+            percentage of par. Totals are shown in USD.
+          </p>
+        </div>
+
+        {summary && (
+          <div className="market-summary portfolio-summary">
+            <div className="summary-tile">
+              <p className="panel-label">Market value</p>
+              <p className="summary-metric">{formatMoney(summary.marketValue)}</p>
+            </div>
+            <div className="summary-tile">
+              <p className="panel-label">Unrealised P&amp;L</p>
+              <p
+                className={`summary-metric trend ${summary.unrealizedPnl >= 0 ? 'up' : 'down'}`}
+              >
+                {formatSignedMoney(summary.unrealizedPnl)}
+              </p>
+              <p className="helper">{formatPercent(summary.unrealizedPnlPercent)}</p>
+            </div>
+            <div className="summary-tile">
+              <p className="panel-label">Day change</p>
+              <p className={`summary-metric trend ${summary.dayChange >= 0 ? 'up' : 'down'}`}>
+                {formatSignedMoney(summary.dayChange)}
+              </p>
+              <p className="helper">{formatPercent(summary.dayChangePercent)}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="table-wrapper">
+          <table className="stocks-table portfolio-table">
+            <thead>
+              <tr>
+                <th>Instrument</th>
+                <th>Quantity</th>
+                <th>Cost</th>
+                <th>Price</th>
+                <th>Market value</th>
+                <th>Unrealised P&amp;L</th>
+                <th>Day change</th>
+                <th>Traded</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {portfolioQuery.isLoading ? (
+                <tr>
+                  <td colSpan={9} className="empty-state">
+                    Loading positions…
+                  </td>
+                </tr>
+              ) : portfolioQuery.isError ? (
+                <tr>
+                  <td colSpan={9} className="empty-state">
+                    Unable to load the portfolio.
+                  </td>
+                </tr>
+              ) : positions.length === 0 ? (
+                <tr>
+                  <td colSpan={9} className="empty-state">
+                    No positions yet. Record a trade to get started.
+                  </td>
+                </tr>
+              ) : (
+                positions.map((position) => {
+                  const bond = position.assetType === 'bond'
+                  return (
+                    <tr key={position.id}>
+                      <td title={position.name}>
+                        {bond ? (
+                          <span className="company">{position.name}</span>
+                        ) : (
+                          <Link
+                            to="/stocks/$ticker"
+                            params={{ ticker: position.symbol }}
+                            className="ticker"
+                          >
+                            {position.symbol}
+                          </Link>
+                        )}
+                        <span className="helper"> · {position.sector}</span>
+                      </td>
+                      <td>
+                        {bond
+                          ? `${compactFormatter.format(position.quantity)} face`
+                          : numberFormatter.format(position.quantity)}
+                      </td>
+                      <td>
+                        {bond
+                          ? `${numberFormatter.format(position.costBasis)}%`
+                          : formatMoney(position.costBasis)}
+                      </td>
+                      <td>
+                        {bond
+                          ? `${numberFormatter.format(position.price)}%`
+                          : formatMoney(position.price)}
+                      </td>
+                      <td>{formatMoney(position.marketValue, position.currency)}</td>
+                      <td>
+                        <span
+                          className={position.unrealizedPnl >= 0 ? 'trend up' : 'trend down'}
+                        >
+                          {formatSignedMoney(position.unrealizedPnl, position.currency)} (
+                          {formatPercent(position.unrealizedPnlPercent)})
+                        </span>
+                      </td>
+                      <td>
+                        {bond ? (
+                          '—'
+                        ) : (
+                          <span className={position.dayChange >= 0 ? 'trend up' : 'trend down'}>
+                            {formatSignedMoney(position.dayChange)}
+                          </span>
+                        )}
+                      </td>
+                      <td>{position.tradeDate}</td>
+                      <td>
+                        <div className="screen-actions">
+                          <button className="row-action" onClick={() => setEditing(position)}>
+                            Edit
+                          </button>
+                          <button
+                            className="row-action"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => {
+                              if (editing?.id === position.id) setEditing(null)
+                              deleteMutation.mutate(position.id)
+                            }}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <aside className="portfolio-side">
+        <div className="services-form-card">
+          <HoldingForm
+            key={editing?.id ?? 'new'}
+            holding={editing ?? undefined}
+            onDone={() => setEditing(null)}
+          />
+        </div>
+        {summary && summary.allocation.length > 0 && (
+          <div className="bond-card">
+            <p className="panel-label">Sector allocation</p>
+            <ul className="sector-breakdown">
+              {summary.allocation.map((entry) => (
+                <li key={entry.sector}>
+                  <span>{entry.sector}</span>
+                  <span className="helper">
+                    {formatMoney(entry.marketValue)} · {percentFormatter.format(entry.weight)}%
+                  </span>
+                  <span className="sector-share" style={{ width: `${entry.weight}%` }} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </aside>
+    </section>
+  )
+}
+
+function AlertsPage() {
+  const queryClient = useQueryClient()
+
+  const alertsQuery = useQuery({
+    queryKey: ['alerts'],
+    queryFn: fetchAlerts,
+    refetchInterval: ALERT_POLL_INTERVAL,
+  })
+
+  const invalidateAlerts = () => queryClient.invalidateQueries({ queryKey: ['alerts'] })
+
+  const rearmMutation = useMutation({ mutationFn: rearmAlert, onSuccess: invalidateAlerts })
+  const deleteMutation = useMutation({ mutationFn: deleteAlert, onSuccess: invalidateAlerts })
+
+  const rules = alertsQuery.data?.data ?? []
+  const groups = [
+    { status: 'triggered', title: 'Triggered' },
+    { status: 'pending', title: 'Pending' },
+  ] as const
+
+  return (
+    <section className="alerts-layout">
+      <div>
+        <p className="eyebrow">Alerts</p>
+        <h1>Price and momentum alerts.</h1>
+        <p className="lead">
+          Create rules from any row on the live board. Rules fire once when prices
+          cross their threshold and can be re-armed afterwards.
+        </p>
+      </div>
+      {alertsQuery.isLoading ? (
+        <p className="empty-state">Loading alerts…</p>
+      ) : alertsQuery.isError ? (
+        <p className="empty-state">Unable to load alerts.</p>
+      ) : rules.length === 0 ? (
+        <div className="bond-empty">
+          <p className="panel-label">No alerts yet</p>
+          <h3>Use the Alert action on the stocks board to add one.</h3>
+          <Link to="/" className="ghost-btn">
+            Open the board
+          </Link>
+        </div>
+      ) : (
+        groups.map((group) => {
+          const groupRules = rules.filter((rule) => rule.status === group.status)
+
+          return (
+            <div key={group.status} className="alert-group">
+              <h2>
+                {group.title} <span className="helper">({groupRules.length})</span>
+              </h2>
+              {groupRules.length === 0 ? (
+                <p className="helper">Nothing {group.title.toLowerCase()}.</p>
+              ) : (
+                groupRules.map((rule) => (
+                  <article key={rule.id} className={`alert-card ${rule.status}`}>
+                    <div className="alert-card-header">
+                      <div>
+                        <p className="panel-label">
+                          Created {new Date(rule.createdAt).toLocaleString('en-US')}
+                        </p>
+                        <h3>{describeAlertRule(rule)}</h3>
+                      </div>
+                      <div className="screen-actions">
+                        {rule.status === 'triggered' && (
+                          <button
+                            onClick={() => rearmMutation.mutate(rule.id)}
+                            disabled={rearmMutation.isPending}
+                          >
+                            Re-arm
+                          </button>
+                        )}
+                        <button
+                          onClick={() => deleteMutation.mutate(rule.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                    {rule.history.length > 0 && (
+                      <ul className="inbox-list">
+                        {rule.history.map((event) => (
+                          <li key={event.id}>
+                            <span>{event.message}</span>
+                            <span className="helper">
+                              {new Date(event.triggeredAt).toLocaleString('en-US')}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </article>
+                ))
+              )}
+            </div>
+          )
+        })
+      )}
+    </section>
+  )
+}
+
+function ServicesPage() {
+  const servicesSchema = z.object({
+    clientName: z.string().min(1, 'Client name is required'),
+    email: z.string().email('Invalid email address'),
+    firm: z.string().min(1, 'Firm name is required'),
+    portfolioSize: z.string().min(1, 'Portfolio must be greater than 1'),
+    mandateType: z.enum(['discretionary', 'advisory', 'execution-only'], 'Select a mandate type'),
+    riskProfile: z.enum(['conservative', 'moderate', 'aggressive'], 'Select a risk profile'),
+    investmentHorizon: z.enum(['short', 'medium', 'long'], 'Select investment horizon'),
+    assetClass: z.enum(['equities', 'fixed-income', 'alternatives', 'multi-asset'], 'Select an asset class'),
+    instrument: z.string().min(1, 'Select an instrument'),
+    notes: z.string().max(500, 'Notes must be 500 characters or less').optional(),
+  })
+
+  type ServicesFormValues = z.infer<typeof servicesSchema>
+
+  const briefQuery = useQuery({
+    queryKey: ['service-brief'],
+    queryFn: fetchServiceBrief,
+    initialData: { data: {} as ServiceBrief },
+    staleTime: Infinity,
+  })
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ServicesFormValues>({
+    resolver: zodResolver(servicesSchema),
+    defaultValues: {
+      clientName: '',
+      email: undefined,
+      firm: '',
+      portfolioSize: '0',
+      mandateType: undefined,
+      riskProfile: undefined,
+      investmentHorizon: undefined,
+      assetClass: undefined,
+      instrument: '',
+      notes: undefined,
+    },
+  })
+
+  const assetClass = useWatch({ control, name: 'assetClass' })
+  const clientName = useWatch({ control, name: 'clientName' })
+  const email = useWatch({ control, name: 'email' })
+
+  const instrumentsQuery = useQuery({
+    queryKey: ['service-instruments'],
+    queryFn: () => fetchInstruments(assetClass!),
+  })
+
+  useEffect(() => {
+    if (briefQuery.data?.data) {
+      reset({
+        clientName: briefQuery.data.data.clientName,
+        email: briefQuery.data.data.email,
+        firm: briefQuery.data.data.firm,
+        portfolioSize: String(briefQuery.data.data.portfolioSize),
+      })
+    }
+  }, [briefQuery.data.data, reset])
+
+  const onSubmit = (data: ServicesFormValues) => {
+    console.log('Form submitted:', data)
+  }
+
+  const instruments = instrumentsQuery.data?.data ?? []
+  const brief = briefQuery.data?.data
+
+  return (
+    <section className="services-layout">
+      <div className="services-intro">
+        <p className="eyebrow">Advisory services</p>
+        <h1>Open a mandate with us.</h1>
+        <p className="lead">
+          Configure your portfolio strategy and investment preferences. Our team will
+          reach out within one business day to finalize the engagement.
+        </p>
+        <p className="lead">Current client: {clientName} ({email || 'no email'})</p>
+        <div className="market-summary">
+          <div className="summary-tile">
+            <p className="panel-label">AUM</p>
+            <p className="summary-metric">$4.2B</p>
+          </div>
+          <div className="summary-tile">
+            <p className="panel-label">Clients</p>
+            <p className="summary-metric">1,847</p>
+          </div>
+          <div className="summary-tile">
+            <p className="panel-label">Avg. return</p>
+            <p className="summary-metric">+12.4%</p>
+          </div>
+        </div>
+      </div>
+      <div className="services-form-card">
+        {briefQuery.isLoading ? (
+          <div className="form-loading">
+            <p className="panel-label">Loading</p>
+            <h3>Fetching your profile...</h3>
+          </div>
+        ) : briefQuery.isError ? (
+          <form onSubmit={handleSubmit(onSubmit)} className="services-form">
+            <div className="form-header">
+              <div>
+                <p className="panel-label">Mandate setup</p>
+                <h2>Client onboarding</h2>
+              </div>
+            </div>
+            <div className="form-grid">
+              <div className="form-group">
+                <label htmlFor="clientName">Client name</label>
+                <input
+                  id="clientName"
+                  type="text"
+                  {...register('clientName')}
+                  className={errors.clientName && !isSubmitting ? 'error' : ''}
+                />
+                {errors.clientName && !isSubmitting && (
+                  <p className="error-text">{errors.clientName.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="email">Email</label>
+                <input
+                  id="email"
+                  type="email"
+                  {...register('email')}
+                  className={errors.email && !isSubmitting ? 'error' : ''}
+                />
+                {errors.email && !isSubmitting && (
+                  <p className="error-text">{errors.email.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="firm">Firm</label>
+                <input
+                  id="firm"
+                  type="text"
+                  {...register('firm')}
+                  className={errors.firm && !isSubmitting ? 'error' : ''}
+                />
+                {errors.firm && !isSubmitting && (
+                  <p className="error-text">{errors.firm.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="portfolioSize">Portfolio size (USD)</label>
+                <input
+                  id="portfolioSize"
+                  type="text"
+                  {...register('portfolioSize')}
+                  className={errors.portfolioSize && !isSubmitting ? 'error' : ''}
+                />
+                {errors.portfolioSize && !isSubmitting && (
+                  <p className="error-text">{errors.portfolioSize.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="mandateType">Mandate type</label>
+                <select
+                  id="mandateType"
+                  {...register('mandateType')}
+                  className={errors.mandateType && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">Select mandate</option>
+                  <option value="discretionary">Discretionary</option>
+                  <option value="advisory">Advisory</option>
+                  <option value="execution-only">Execution only</option>
+                </select>
+                {errors.mandateType && !isSubmitting && (
+                  <p className="error-text">{errors.mandateType.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="riskProfile">Risk profile</label>
+                <select
+                  id="riskProfile"
+                  {...register('riskProfile')}
+                  className={errors.riskProfile && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">Select risk</option>
+                  <option value="conservative">Conservative</option>
+                  <option value="moderate">Moderate</option>
+                  <option value="aggressive">Aggressive</option>
+                </select>
+                {errors.riskProfile && !isSubmitting && (
+                  <p className="error-text">{errors.riskProfile.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="investmentHorizon">Investment horizon</label>
+                <select
+                  id="investmentHorizon"
+                  {...register('investmentHorizon')}
+                  className={errors.investmentHorizon && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">Select horizon</option>
+                  <option value="short">Short (0-3 years)</option>
+                  <option value="medium">Medium (3-7 years)</option>
+                  <option value="long">Long (7+ years)</option>
+                </select>
+                {errors.investmentHorizon && !isSubmitting && (
+                  <p className="error-text">{errors.investmentHorizon.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="assetClass">Asset class</label>
+                <select
+                  id="assetClass"
+                  {...register('assetClass')}
+                  className={errors.assetClass && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">Select asset class</option>
+                  <option value="equities">Equities</option>
+                  <option value="fixed-income">Fixed income</option>
+                  <option value="alternatives">Alternatives</option>
+                  <option value="multi-asset">Multi-asset</option>
+                </select>
+                {errors.assetClass && !isSubmitting && (
+                  <p className="error-text">{errors.assetClass.message}</p>
+                )}
+              </div>
+              <div className="form-group full-width">
+                <label htmlFor="instrument">Instrument</label>
+                <select
+                  id="instrument"
+                  {...register('instrument')}
+                  disabled={instrumentsQuery.isFetching}
+                  className={errors.instrument && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">
+                    {instrumentsQuery.isFetching ? 'Loading...' : 'Select instrument'}
+                  </option>
+                  {instruments.map((inst, index) => (
+                    <option key={index} value={inst.name}>
+                      {inst.name} ({inst.ticker})
+                    </option>
+                  ))}
+                </select>
+                {errors.instrument && !isSubmitting && (
+                  <p className="error-text">{errors.instrument.message}</p>
+                )}
+              </div>
+              <div className="form-group full-width">
+                <label htmlFor="notes">Notes (optional)</label>
+                <textarea
+                  id="notes"
+                  rows={3}
+                  {...register('notes')}
+                  className={errors.notes && !isSubmitting ? 'error' : ''}
+                />
+                {errors.notes && !isSubmitting && (
+                  <p className="error-text">{errors.notes.message}</p>
+                )}
+              </div>
+            </div>
+            <div className="form-actions">
+              <button 
+                type="submit" 
+                className="primary-btn" 
+                disabled={isSubmitting || instrumentsQuery.isFetching}
+              >
+                {isSubmitting ? 'Submitting...' : 'Submit mandate'}
+              </button>
+              <button
+                type="button"
+                className="ghost-btn"
+                onClick={() => briefQuery.data && reset(briefQuery.data.data as unknown as ServicesFormValues)}
+              >
+                Reset
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="services-form">
+            <div className="form-header">
+              <div>
+                <p className="panel-label">Mandate setup</p>
+                <h2>Client onboarding</h2>
+              </div>
+              {brief && (
+                <p className="form-prefill">
+                  Prefilled from your saved profile
+                </p>
+              )}
+            </div>
+            <div className="form-grid">
+              <div className="form-group">
+                <label htmlFor="clientName">Client name</label>
+                <input
+                  id="clientName"
+                  type="text"
+                  {...register('clientName')}
+                  className={errors.clientName && !isSubmitting ? 'error' : ''}
+                />
+                {errors.clientName && !isSubmitting && (
+                  <p className="error-text">{errors.clientName.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="email">Email</label>
+                <input
+                  id="email"
+                  type="email"
+                  {...register('email')}
+                  className={errors.email && !isSubmitting ? 'error' : ''}
+                />
+                {errors.email && !isSubmitting && (
+                  <p className="error-text">{errors.email.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="firm">Firm</label>
+                <input
+                  id="firm"
+                  type="text"
+                  {...register('firm')}
+                  className={errors.firm && !isSubmitting ? 'error' : ''}
+                />
+                {errors.firm && !isSubmitting && (
+                  <p className="error-text">{errors.firm.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="portfolioSize">Portfolio size (USD)</label>
+                <input
+                  id="portfolioSize"
+                  type="text"
+                  {...register('portfolioSize')}
+                  className={errors.portfolioSize && !isSubmitting ? 'error' : ''}
+                />
+                {errors.portfolioSize && !isSubmitting && (
+                  <p className="error-text">{errors.portfolioSize.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="mandateType">Mandate type</label>
+                <select
+                  id="mandateType"
+                  {...register('mandateType')}
+                  className={errors.mandateType && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">Select mandate</option>
+                  <option value="discretionary">Discretionary</option>
+                  <option value="advisory">Advisory</option>
+                  <option value="execution-only">Execution only</option>
+                </select>
+                {errors.mandateType && !isSubmitting && (
+                  <p className="error-text">{errors.mandateType.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="riskProfile">Risk profile</label>
+                <select
+                  id="riskProfile"
+                  {...register('riskProfile')}
+                  className={errors.riskProfile && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">Select risk</option>
+                  <option value="conservative">Conservative</option>
+                  <option value="moderate">Moderate</option>
+                  <option value="aggressive">Aggressive</option>
+                </select>
+                {errors.riskProfile && !isSubmitting && (
+                  <p className="error-text">{errors.riskProfile.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="investmentHorizon">Investment horizon</label>
+                <select
+                  id="investmentHorizon"
+                  {...register('investmentHorizon')}
+                  className={errors.investmentHorizon && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">Select horizon</option>
+                  <option value="short">Short (0-3 years)</option>
+                  <option value="medium">Medium (3-7 years)</option>
+                  <option value="long">Long (7+ years)</option>
+                </select>
+                {errors.investmentHorizon && !isSubmitting && (
+                  <p className="error-text">{errors.investmentHorizon.message}</p>
+                )}
+              </div>
+              <div className="form-group">
+                <label htmlFor="assetClass">Asset class</label>
+                <select
+                  id="assetClass"
+                  {...register('assetClass')}
+                  className={errors.assetClass && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">Select asset class</option>
+                  <option value="equities">Equities</option>
+                  <option value="fixed-income">Fixed income</option>
+                  <option value="alternatives">Alternatives</option>
+                  <option value="multi-asset">Multi-asset</option>
+                </select>
+                {errors.assetClass && !isSubmitting && (
+                  <p className="error-text">{errors.assetClass.message}</p>
+                )}
+              </div>
+              <div className="form-group full-width">
+                <label htmlFor="instrument">Instrument</label>
+                <select
+                  id="instrument"
+                  {...register('instrument')}
+                  disabled={instrumentsQuery.isFetching}
+                  className={errors.instrument && !isSubmitting ? 'error' : ''}
+                >
+                  <option value="">
+                    {instrumentsQuery.isFetching ? 'Loading...' : 'Select instrument'}
+                  </option>
+                  {instruments.map((inst, index) => (
+                    <option key={index} value={inst.name}>
+                      {inst.name} ({inst.ticker})
+                    </option>
+                  ))}
+                </select>
+                {errors.instrument && !isSubmitting && (
+                  <p className="error-text">{errors.instrument.message}</p>
+                )}
+              </div>
+              <div className="form-group full-width">
+                <label htmlFor="notes">Notes (optional)</label>
+                <textarea
+                  id="notes"
+                  rows={3}
+                  {...register('notes')}
+                  className={errors.notes && !isSubmitting ? 'error' : ''}
+                />
+                {errors.notes && !isSubmitting && (
+                  <p className="error-text">{errors.notes.message}</p>
+                )}
+              </div>
+            </div>
+            <div className="form-actions">
+              <button 
+                type="submit" 
+                className="primary-btn" 
+                disabled={isSubmitting || instrumentsQuery.isFetching}
+              >
+                {isSubmitting ? 'Submitting...' : 'Submit mandate'}
+              </button>
+              <button
+                type="button"
+                className="ghost-btn"
+                onClick={() => briefQuery.data && reset(briefQuery.data.data as unknown as ServicesFormValues)}
+              >
+                Reset
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </section>
+  )
+}
+
+type RouterContext = {
+  queryClient: QueryClient
+}
+
+const rootRoute = createRootRouteWithContext<RouterContext>()({
+  component: RootLayout,
+})
+
+const indexRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/',
+  validateSearch: stocksSearchSchema,
+  search: {
+    middlewares: [stripSearchParams(defaultStocksSearch)],
+  },
+  // The saved column layout seeds the table's initial state; if it cannot be
+  // loaded the board opens with the default layout instead.
+  loader: ({ context: { queryClient } }) =>
+    queryClient.ensureQueryData(preferencesQuery).catch(() => undefined),
+  component: StocksPage,
+})
+
+const aboutRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/about',
+  validateSearch: bondsSearchSchema,
+  search: {
+    middlewares: [stripSearchParams(defaultBondsSearch)],
+  },
+  component: AboutPage,
+})
+
+const stockDetailRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/stocks/$ticker',
+  validateSearch: stockDetailSearchSchema,
+  search: {
+    middlewares: [stripSearchParams({ range: '1M', chart: 'candles' })],
+  },
+  component: StockDetailPage,
+})
+
+const compareRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/stocks/compare',
+  validateSearch: compareSearchSchema,
+  search: {
+    middlewares: [stripSearchParams({ tickers: '', range: '1M' })],
+  },
+  component: StockComparePage,
+})
+
+const yieldCurveRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/bonds/curve',
+  validateSearch: yieldCurveSearchSchema,
+  search: {
+    middlewares: [stripSearchParams({ split: 'currency' })],
+  },
+  component: YieldCurvePage,
+})
+
+const bondDossierRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/bonds/$bondId',
+  loader: ({ context: { queryClient }, params: { bondId } }) =>
+    queryClient.ensureQueryData(bondDetailQuery(bondId)),
+  notFoundComponent: BondNotFound,
+  component: BondDossierPage,
+})
+
+const portfolioRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/portfolio',
+  component: PortfolioPage,
+})
+
+const blotterRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/orders',
+  validateSearch: blotterSearchSchema,
+  search: {
+    middlewares: [stripSearchParams({ status: 'all' })],
+  },
+  component: BlotterPage,
+})
+
+const alertsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/alerts',
+  component: AlertsPage,
+})
+
+const servicesRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/services',
+  component: ServicesPage,
+})
+
+const journalRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/journal',
+  component: JournalPage,
+})
+
+const contactRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/contact',
+  component: ContactPage,
+})
+
+const routeTree = rootRoute.addChildren([
+  indexRoute,
+  compareRoute,
+  stockDetailRoute,
+  portfolioRoute,
+  blotterRoute,
+  alertsRoute,
+  aboutRoute,
+  yieldCurveRoute,
+  bondDossierRoute,
+  servicesRoute,
+  journalRoute,
+  contactRoute,
+])
+
+export const router = createRouter({
+  routeTree,
+  // Filled in by <App> from the QueryClientProvider.
+  context: { queryClient: undefined! },
+  // Loaders defer to TanStack Query's cache, so the router keeps no copy.
+  defaultPreloadStaleTime: 0,
+})
+
+declare module '@tanstack/react-router' {
+  interface Register {
+    router: typeof router
+  }
+}
+
+type PaletteItem = {
+  id: string
+  section: 'Pages' | 'Actions' | 'Stocks' | 'Bonds' | 'Saved'
+  label: string
+  hint?: string
+  run: () => void
+}
+
+const paletteSections: PaletteItem['section'][] = ['Actions', 'Pages', 'Saved', 'Stocks', 'Bonds']
+
+const palettePages = [
+  { to: '/', label: 'Live board' },
+  { to: '/portfolio', label: 'Portfolio' },
+  { to: '/orders', label: 'Order blotter' },
+  { to: '/alerts', label: 'Alerts' },
+  { to: '/about', label: 'Bond dossier' },
+  { to: '/bonds/curve', label: 'Yield curve' },
+  { to: '/services', label: 'Services' },
+  { to: '/journal', label: 'Journal' },
+  { to: '/contact', label: 'Contact' },
+] as const
+
+// Subsequence match: every query character must appear in order. Runs of
+// consecutive characters and matches at word starts score higher.
+const fuzzyScore = (query: string, text: string) => {
+  const needle = query.toLowerCase()
+  const haystack = text.toLowerCase()
+  let score = 0
+  let position = -1
+  let streak = 0
+
+  for (const char of needle) {
+    if (char === ' ') continue
+    const index = haystack.indexOf(char, position + 1)
+    if (index === -1) return null
+
+    streak = index === position + 1 ? streak + 1 : 0
+    score += 1 + streak * 2 + (index === 0 || /[\s·/-]/.test(haystack[index - 1]) ? 3 : 0)
+    position = index
+  }
+
+  return score - haystack.length * 0.01
+}
+
+// Board exports from the palette mirror the table as last laid out, using
+// the column order and visibility saved to the user's preferences.
+const exportBoard = async (
+  queryClient: QueryClient,
+  search: StocksSearch,
+  format: ExportFormat,
+) => {
+  const filters = pickFilters(search)
+  const view: StocksView = {
+    sort: search.sort,
+    order: search.order,
+    page: 1,
+    pageSize: search.pageSize,
+  }
+  const first = await queryClient.fetchQuery({
+    queryKey: ['stocks', filters, view],
+    queryFn: ({ signal }) => fetchStocks(filters, view, signal),
+  })
+  const allRows: StocksView = { ...view, pageSize: Math.max(1, first.meta.total) }
+  const response = await queryClient.fetchQuery({
+    queryKey: ['stocks', filters, allRows],
+    queryFn: ({ signal }) => fetchStocks(filters, allRows, signal),
+  })
+
+  const preferences = await queryClient.ensureQueryData(preferencesQuery).catch(() => undefined)
+  const layout = parseTableLayout(preferences?.data.stocksTable)
+  const order = layout.columnOrder.length ? layout.columnOrder : stockSortColumns
+  const columns = order
+    .filter((id): id is StockColumnId => id in stockColumnHeaders)
+    .filter((id) => layout.columnVisibility[id] !== false)
+    .map((id) => ({ id, header: stockColumnHeaders[id] }))
+
+  exportStocks({ format, raw: false, stocks: response.data, columns, filters })
+}
+
+function CommandPalette() {
+  const queryClient = useQueryClient()
+  const navigate = useNavigate()
+  const location = useRouterState({ select: (state) => state.location })
+  const listRef = useRef<HTMLUListElement>(null)
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault()
+        setOpen((prev) => !prev)
+        setQuery('')
+        setActiveIndex(0)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const stocksQuery = useQuery({
+    queryKey: ['stocks', defaultFilters, tickerListView],
+    queryFn: ({ signal }) => fetchStocks(defaultFilters, tickerListView, signal),
+    enabled: open,
+  })
+
+  const bondsQuery = useQuery({
+    queryKey: ['bond-options'],
+    queryFn: fetchBondOptions,
+    enabled: open,
+  })
+
+  const screensQuery = useQuery({
+    queryKey: ['screens'],
+    queryFn: fetchScreens,
+    enabled: open,
+  })
+
+  const watchlistsQuery = useQuery({
+    queryKey: ['watchlists'],
+    queryFn: fetchWatchlists,
+    enabled: open,
+  })
+
+  const exportMutation = useMutation({
+    mutationFn: (format: ExportFormat) =>
+      exportBoard(
+        queryClient,
+        stocksSearchSchema.parse(location.pathname === '/' ? location.search : {}),
+        format,
+      ),
+  })
+
+  const close = () => setOpen(false)
+
+  const boardSearch = location.pathname === '/' ? stocksSearchSchema.parse(location.search) : undefined
+
+  const items: PaletteItem[] = [
+    {
+      id: 'action-reset',
+      section: 'Actions',
+      label: 'Reset filters',
+      hint: 'Live board',
+      run: () =>
+        navigate({
+          to: '/',
+          search: boardSearch
+            ? { ...boardSearch, ...defaultFilters, page: 1 }
+            : defaultStocksSearch,
+        }),
+    },
+    ...(['csv', 'xlsx', 'json'] as const).map((format) => ({
+      id: `action-export-${format}`,
+      section: 'Actions' as const,
+      label: `Export board as ${{ csv: 'CSV', xlsx: 'Excel', json: 'JSON' }[format]}`,
+      hint: boardSearch ? 'Current filters' : 'All tickers',
+      run: () => exportMutation.mutate(format),
+    })),
+    {
+      id: 'action-mode',
+      section: 'Actions',
+      label:
+        boardSearch?.mode === 'heatmap' ? 'Switch board to table' : 'Switch board to heatmap',
+      run: () =>
+        navigate({
+          to: '/',
+          search: {
+            ...(boardSearch ?? defaultStocksSearch),
+            mode: boardSearch?.mode === 'heatmap' ? 'table' : 'heatmap',
+          },
+        }),
+    },
+    ...palettePages.map((page) => ({
+      id: `page-${page.to}`,
+      section: 'Pages' as const,
+      label: page.label,
+      hint: page.to,
+      run: () => navigate({ to: page.to }),
+    })),
+    ...(screensQuery.data?.data ?? []).map((screen) => ({
+      id: `screen-${screen.id}`,
+      section: 'Saved' as const,
+      label: screen.name,
+      hint: 'Saved screen',
+      run: () => navigate({ to: '/', search: { ...defaultStocksSearch, ...screen.filters } }),
+    })),
+    ...(watchlistsQuery.data?.data ?? []).map((watchlist) => ({
+      id: `watchlist-${watchlist.id}`,
+      section: 'Saved' as const,
+      label: watchlist.name,
+      hint: `Watchlist · ${watchlist.tickers.length} tickers`,
+      run: () =>
+        navigate({ to: '/', search: { ...defaultStocksSearch, watchlist: watchlist.id } }),
+    })),
+    ...(stocksQuery.data?.data ?? []).map((stock) => ({
+      id: `stock-${stock.ticker}`,
+      section: 'Stocks' as const,
+      label: `${stock.ticker} · ${stock.company}`,
+      hint: currencyFormatter.format(stock.price),
+      run: () => navigate({ to: '/stocks/$ticker', params: { ticker: stock.ticker } }),
+    })),
+    ...(bondsQuery.data?.data ?? []).map((bond) => ({
+      id: `bond-${bond.id}`,
+      section: 'Bonds' as const,
+      label: bond.name,
+      hint: `${bond.issuer} · ${bond.rating}`,
+      run: () => navigate({ to: '/bonds/$bondId', params: { bondId: bond.id } }),
+    })),
+  ]
+
+  const trimmed = query.trim()
+  const results = trimmed
+    ? items
+        .map((item) => ({ item, score: fuzzyScore(trimmed, item.label) }))
+        .filter((entry) => entry.score !== null)
+        .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+        .slice(0, 12)
+        .map((entry) => entry.item)
+    : paletteSections.flatMap((section) =>
+        items.filter((item) => item.section === section && section !== 'Stocks' && section !== 'Bonds'),
+      )
+
+  const current = Math.min(activeIndex, Math.max(0, results.length - 1))
+
+  const runItem = (item: PaletteItem) => {
+    close()
+    item.run()
+  }
+
+  if (!open) return null
+
+  return (
+    <div className="dialog-backdrop palette-backdrop" onClick={close}>
+      <div
+        className="palette"
+        role="dialog"
+        aria-label="Command palette"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <input
+          autoFocus
+          type="text"
+          placeholder="Search pages, tickers, bonds and actions…"
+          role="combobox"
+          aria-expanded
+          aria-controls="palette-results"
+          aria-activedescendant={results[current] ? `palette-${results[current].id}` : undefined}
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value)
+            setActiveIndex(0)
+          }}
+          onKeyDown={(event) => {
+            if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+              event.preventDefault()
+              const next =
+                (current + (event.key === 'ArrowDown' ? 1 : -1) + results.length) %
+                Math.max(1, results.length)
+              setActiveIndex(next)
+              const options = listRef.current?.querySelectorAll('[role="option"]')
+              options?.[next]?.scrollIntoView({ block: 'nearest' })
+            } else if (event.key === 'Enter' && results[current]) {
+              event.preventDefault()
+              runItem(results[current])
+            } else if (event.key === 'Escape') {
+              close()
+            }
+          }}
+        />
+        <ul id="palette-results" ref={listRef} className="palette-results" role="listbox">
+          {results.length === 0 ? (
+            <li className="empty-state">Nothing matches “{trimmed}”.</li>
+          ) : (
+            results.map((item, index) => (
+              <li
+                key={item.id}
+                id={`palette-${item.id}`}
+                role="option"
+                aria-selected={index === current}
+                className={index === current ? 'active' : undefined}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => runItem(item)}
+              >
+                <span className="palette-section">{item.section}</span>
+                <span className="palette-label">{item.label}</span>
+                {item.hint && <span className="helper">{item.hint}</span>}
+              </li>
+            ))
+          )}
+        </ul>
+        <p className="helper palette-footer">
+          <kbd>↑</kbd>
+          <kbd>↓</kbd> to move · <kbd>Enter</kbd> to run · <kbd>Esc</kbd> to close
+          {exportMutation.isPending && ' · Exporting…'}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function RootLayout() {
+  return (
+    <div className="app-shell">
+      <header className="site-header">
+        <div className="brand">
+          <span className="brand-mark">V</span>
+          <div>
+            <p className="brand-title">Vibes Studio</p>
+            <p className="brand-tagline">Design-forward digital atmospheres</p>
+          </div>
+        </div>
+        <nav className="nav">
+          <Link to="/" className="nav-link" activeProps={{ className: 'nav-link active' }}>
+            Home
+          </Link>
+          <Link
+            to="/portfolio"
+            className="nav-link"
+            activeProps={{ className: 'nav-link active' }}
+          >
+            Portfolio
+          </Link>
+          <Link
+            to="/orders"
+            className="nav-link"
+            activeProps={{ className: 'nav-link active' }}
+          >
+            Orders
+          </Link>
+          <Link
+            to="/alerts"
+            className="nav-link"
+            activeProps={{ className: 'nav-link active' }}
+          >
+            Alerts
+          </Link>
+          <Link
+            to="/about"
+            className="nav-link"
+            activeProps={{ className: 'nav-link active' }}
+          >
+            About
+          </Link>
+          <Link
+            to="/services"
+            className="nav-link"
+            activeProps={{ className: 'nav-link active' }}
+          >
+            Services
+          </Link>
+          <Link
+            to="/journal"
+            className="nav-link"
+            activeProps={{ className: 'nav-link active' }}
+          >
+            Journal
+          </Link>
+          <Link
+            to="/contact"
+            className="nav-link"
+            activeProps={{ className: 'nav-link active' }}
+          >
+            Contact
+          </Link>
+          <AlertCenter />
+        </nav>
+      </header>
+      <CommandPalette />
+      <main className="page">
+        <Outlet />
+      </main>
+      <footer className="site-footer">
+        <p>Based in the cloud, grounded in craft.</p>
+        <div className="footer-meta">
+          <span>New York</span>
+          <span>Lisbon</span>
+          <span>Kyoto</span>
+        </div>
+      </footer>
+    </div>
+  )
+}
+
+const bondDateFormatter = new Intl.DateTimeFormat('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+})
+
+const defaultBondTerms = (bond: Bond): BondTerms => ({
+  coupon: bond.coupon,
+  maturity: bond.maturity,
+  ...marketConvention(bond.currency),
+})
+
+const YIELD_SHIFT_LIMIT = 300
+
+function BondWhatIf({ bond }: { bond: Bond }) {
+  const [settlement, setSettlement] = useState(() => new Date().toISOString().slice(0, 10))
+  const [dayCount, setDayCount] = useState<DayCount>(() => defaultBondTerms(bond).dayCount)
+  const [priceText, setPriceText] = useState(bond.price.toFixed(2))
+  const [yieldText, setYieldText] = useState('')
+  const [shift, setShift] = useState(0)
+
+  const terms: BondTerms = { ...defaultBondTerms(bond), dayCount }
+  const price = Number(priceText)
+  // Clearing the date input leaves an empty string, which would otherwise
+  // slip past the maturity check and price off an invalid date.
+  const settlementValid =
+    /^\d{4}-\d{2}-\d{2}$/.test(settlement) && !Number.isNaN(Date.parse(settlement))
+  const matured = settlementValid && settlement >= bond.maturity
+  const priceValid = priceText.trim() !== '' && Number.isFinite(price) && price > 0
+  const analytics =
+    settlementValid && priceValid && !matured ? analyzeBond(terms, settlement, price, bond.nextCall) : null
+  const shiftedYield = analytics ? analytics.yieldToMaturity + shift / 100 : null
+  const shifted =
+    shiftedYield !== null ? priceFromYield(terms, settlement, shiftedYield) : null
+  const actualChange =
+    analytics && shifted ? (shifted.dirtyPrice / analytics.dirtyPrice - 1) * 100 : null
+
+  // Price and yield are two views of the same input: editing either one
+  // rewrites the other.
+  const updatePrice = (value: string) => {
+    setPriceText(value)
+    setYieldText('')
+  }
+
+  const updateYield = (value: string) => {
+    setYieldText(value)
+    const nextYield = Number(value)
+    if (value.trim() !== '' && Number.isFinite(nextYield) && settlementValid && !matured) {
+      setPriceText(priceFromYield(terms, settlement, nextYield).cleanPrice.toFixed(4))
+    }
+  }
+
+  const formatYield = (value: number | null) =>
+    value === null || Number.isNaN(value) ? '—' : `${percentFormatter.format(value)}%`
+
+  return (
+    <section className="bond-panel">
+      <div className="table-toolbar">
+        <div>
+          <p className="eyebrow">What if</p>
+          <h2>Reprice {bond.name}</h2>
+          <p className="lead">
+            Change the price or yield to see duration, convexity and carry move with it.
+          </p>
+        </div>
+      </div>
+
+      <div className="whatif-grid">
+        <div className="whatif-inputs">
+          <div className="form-group">
+            <label htmlFor="whatif-settlement">Settlement date</label>
+            <input
+              id="whatif-settlement"
+              type="date"
+              value={settlement}
+              aria-invalid={!settlementValid || matured}
+              className={settlementValid && !matured ? undefined : 'error'}
+              onChange={(event) => {
+                setSettlement(event.target.value)
+                setYieldText('')
+              }}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="whatif-daycount">Day count</label>
+            <select
+              id="whatif-daycount"
+              value={dayCount}
+              onChange={(event) => {
+                setDayCount(event.target.value as DayCount)
+                setYieldText('')
+              }}
+            >
+              {dayCounts.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="whatif-price">Clean price</label>
+            <input
+              id="whatif-price"
+              type="text"
+              inputMode="decimal"
+              aria-invalid={!priceValid}
+              className={priceValid ? undefined : 'error'}
+              value={priceText}
+              onChange={(event) => updatePrice(event.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="whatif-yield">Yield to maturity (%)</label>
+            <input
+              id="whatif-yield"
+              type="text"
+              inputMode="decimal"
+              placeholder={analytics ? analytics.yieldToMaturity.toFixed(4) : undefined}
+              value={yieldText}
+              onChange={(event) => updateYield(event.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="whatif-shift">
+              Yield shift: {shift > 0 ? '+' : ''}
+              {shift} bp
+            </label>
+            <input
+              id="whatif-shift"
+              type="range"
+              min={-YIELD_SHIFT_LIMIT}
+              max={YIELD_SHIFT_LIMIT}
+              step={5}
+              value={shift}
+              onChange={(event) => setShift(Number(event.target.value))}
+            />
+          </div>
+          {!settlementValid ? (
+            <p className="error-text" role="alert">
+              Enter a valid settlement date.
+            </p>
+          ) : matured ? (
+            <p className="error-text" role="alert">
+              Settlement must fall before maturity ({bond.maturity}).
+            </p>
+          ) : !priceValid ? (
+            <p className="error-text" role="alert">
+              Enter a positive clean price.
+            </p>
+          ) : (
+            <p className="helper">
+              {terms.frequency === 2 ? 'Semiannual' : 'Annual'} coupons · {bond.currency}{' '}
+              convention. Prices are per 100 face.
+            </p>
+          )}
+        </div>
+
+        <div className="bond-metrics whatif-metrics">
+          <div>
+            <p className="panel-label">Yield to maturity</p>
+            <p className="metric-value">{formatYield(analytics?.yieldToMaturity ?? null)}</p>
+          </div>
+          <div>
+            <p className="panel-label">Yield to call</p>
+            <p className="metric-value">
+              {bond.nextCall ? formatYield(analytics?.yieldToCall ?? null) : 'Non-callable'}
+            </p>
+          </div>
+          <div>
+            <p className="panel-label">Accrued interest</p>
+            <p className="metric-value">{analytics?.accruedInterest.toFixed(4) ?? '—'}</p>
+          </div>
+          <div>
+            <p className="panel-label">Dirty price</p>
+            <p className="metric-value">{analytics?.dirtyPrice.toFixed(4) ?? '—'}</p>
+          </div>
+          <div>
+            <p className="panel-label">Macaulay duration</p>
+            <p className="metric-value">
+              {analytics ? `${analytics.macaulayDuration.toFixed(2)} yrs` : '—'}
+            </p>
+          </div>
+          <div>
+            <p className="panel-label">Modified duration</p>
+            <p className="metric-value">{analytics?.modifiedDuration.toFixed(2) ?? '—'}</p>
+          </div>
+          <div>
+            <p className="panel-label">Convexity</p>
+            <p className="metric-value">{analytics?.convexity.toFixed(2) ?? '—'}</p>
+          </div>
+          <div>
+            <p className="panel-label">DV01 (per 1M face)</p>
+            <p className="metric-value">
+              {analytics ? formatMoney(analytics.dv01 * 10000, bond.currency) : '—'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {analytics && shifted && actualChange !== null && (
+        <div className="whatif-shock">
+          <div>
+            <p className="panel-label">Shifted yield</p>
+            <p>{formatYield(shiftedYield)}</p>
+          </div>
+          <div>
+            <p className="panel-label">Repriced clean</p>
+            <p>{shifted.cleanPrice.toFixed(4)}</p>
+          </div>
+          <div>
+            <p className="panel-label">Change (full repricing)</p>
+            <p className={actualChange >= 0 ? 'trend up' : 'trend down'}>
+              {actualChange >= 0 ? '+' : ''}
+              {percentFormatter.format(actualChange)}%
+            </p>
+          </div>
+          <div>
+            <p className="panel-label">Duration + convexity estimate</p>
+            <p>
+              {estimatePriceChange(analytics, shift) >= 0 ? '+' : ''}
+              {percentFormatter.format(estimatePriceChange(analytics, shift))}%
+            </p>
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
+
+const faceValueOptions = [100, 1000, 10000, 1000000]
+
+function CashflowChart({ flows, currency }: { flows: BondCashflow[]; currency: Bond['currency'] }) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  const max = Math.max(1, ...flows.map((flow) => flow.total)) * 1.05
+  const innerWidth = CHART_WIDTH - chartPadding.left - chartPadding.right
+  const innerHeight = CHART_HEIGHT - chartPadding.top - chartPadding.bottom
+  const step = innerWidth / Math.max(1, flows.length)
+  const barWidth = Math.max(2, step * 0.7)
+  const x = (index: number) => chartPadding.left + (index + 0.5) * step
+  const y = (value: number) => chartPadding.top + ((max - value) / max) * innerHeight
+  const height = (value: number) => (value / max) * innerHeight
+
+  const gridValues = Array.from({ length: 5 }, (_, index) => (max * index) / 4)
+  const labelIndexes = Array.from(
+    new Set([0, Math.floor((flows.length - 1) / 2), flows.length - 1]),
+  ).filter((index) => index >= 0)
+  const hovered = hoverIndex !== null ? flows[hoverIndex] : undefined
+
+  const handlePointer = (event: React.PointerEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const chartX = ((event.clientX - bounds.left) / bounds.width) * CHART_WIDTH
+    const index = Math.floor((chartX - chartPadding.left) / step)
+    setHoverIndex(index >= 0 && index < flows.length ? index : null)
+  }
+
+  return (
+    <div className="price-chart">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label="Projected cash flows"
+        onPointerMove={handlePointer}
+        onPointerLeave={() => setHoverIndex(null)}
+      >
+        {gridValues.map((value) => (
+          <g key={value} className="chart-grid">
+            <line
+              x1={chartPadding.left}
+              x2={CHART_WIDTH - chartPadding.right}
+              y1={y(value)}
+              y2={y(value)}
+            />
+            <text x={CHART_WIDTH - chartPadding.right + 8} y={y(value) + 4}>
+              {compactFormatter.format(value)}
+            </text>
+          </g>
+        ))}
+        {flows.map((flow, index) => (
+          <g key={flow.date} className={index === hoverIndex ? 'cashflow-bar active' : 'cashflow-bar'}>
+            <rect
+              className="cashflow-coupon"
+              x={x(index) - barWidth / 2}
+              y={y(flow.coupon)}
+              width={barWidth}
+              height={Math.max(1, height(flow.coupon))}
+            />
+            {flow.principal > 0 && (
+              <rect
+                className="cashflow-principal"
+                x={x(index) - barWidth / 2}
+                y={y(flow.total)}
+                width={barWidth}
+                height={height(flow.principal)}
+              />
+            )}
+          </g>
+        ))}
+        {labelIndexes.map((index) => (
+          <text
+            key={index}
+            className="chart-axis"
+            x={x(index)}
+            y={CHART_HEIGHT - 8}
+            textAnchor="middle"
+          >
+            {bondDateFormatter.format(new Date(flows[index].date))}
+          </text>
+        ))}
+      </svg>
+      {hovered && hoverIndex !== null && (
+        <div
+          className="chart-tooltip"
+          style={{
+            left: `${(x(hoverIndex) / CHART_WIDTH) * 100}%`,
+            top: `${(y(hovered.total) / CHART_HEIGHT) * 100}%`,
+          }}
+        >
+          <p className="panel-label">{bondDateFormatter.format(new Date(hovered.date))}</p>
+          <dl>
+            <dt>Coupon</dt>
+            <dd>{formatMoney(hovered.coupon, currency)}</dd>
+            {hovered.principal > 0 && (
+              <>
+                <dt>Principal</dt>
+                <dd>{formatMoney(hovered.principal, currency)}</dd>
+              </>
+            )}
+          </dl>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const exportCashflows = (bond: Bond, flows: BondCashflow[], scenario: CashflowScenario) => {
+  const rows: ExportCell[][] = [
+    [
+      `${bond.name} · ${scenario === 'call' ? `to call ${bond.nextCall}` : `to maturity ${bond.maturity}`} · ${bond.currency}`,
+    ],
+    ['Date', 'Coupon', 'Principal', 'Total'],
+    ...flows.map((flow) => [flow.date, flow.coupon, flow.principal, flow.total]),
+  ]
+  const csv = rows.map((row) => row.map(escapeCsv).join(',')).join('\n')
+  downloadBlob(
+    new Blob([csv], { type: 'text/csv;charset=utf-8' }),
+    `${bond.id}-cashflows-${scenario}.csv`,
+  )
+}
+
+function BondCashflows({ bond }: { bond: Bond }) {
+  const [scenario, setScenario] = useState<CashflowScenario>('maturity')
+  const [face, setFace] = useState(100)
+
+  const query = useQuery({
+    queryKey: ['bond-cashflows', { id: bond.id, scenario, face }],
+    queryFn: ({ signal }) => fetchBondCashflows(bond.id, scenario, face, signal),
+    placeholderData: keepPreviousData,
+  })
+
+  const flows = query.data?.data ?? []
+  const meta = query.data?.meta
+  const cumulative = flows.reduce<number[]>(
+    (totals, flow) => [...totals, (totals.at(-1) ?? 0) + flow.total],
+    [],
+  )
+
+  return (
+    <section className="bond-panel">
+      <div className="table-toolbar">
+        <div>
+          <p className="eyebrow">Cash flows</p>
+          <h2>
+            {scenario === 'call' ? 'To call' : 'To maturity'} ·{' '}
+            {bondDateFormatter.format(
+              new Date(scenario === 'call' ? bond.nextCall! : bond.maturity),
+            )}
+          </h2>
+          <p className="lead">
+            {meta
+              ? `${flows.length} payments totalling ${formatMoney(meta.totalCoupons + meta.totalPrincipal, bond.currency)} per ${numberFormatter.format(face)} face.`
+              : 'Projecting the remaining coupons.'}
+          </p>
+        </div>
+        <div className="table-actions">
+          <div className="segmented">
+            {(['maturity', 'call'] as const).map((option) => (
+              <button
+                key={option}
+                className={option === scenario ? 'active' : ''}
+                disabled={option === 'call' && !bond.nextCall}
+                title={option === 'call' && !bond.nextCall ? 'Non-callable' : undefined}
+                onClick={() => setScenario(option)}
+              >
+                {option === 'maturity' ? 'To maturity' : 'To call'}
+              </button>
+            ))}
+          </div>
+          <select
+            aria-label="Face value"
+            value={face}
+            onChange={(event) => setFace(Number(event.target.value))}
+          >
+            {faceValueOptions.map((option) => (
+              <option key={option} value={option}>
+                {numberFormatter.format(option)} face
+              </option>
+            ))}
+          </select>
+          <button
+            className="ghost-btn"
+            disabled={!flows.length}
+            onClick={() => exportCashflows(bond, flows, scenario)}
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {query.isError ? (
+        <p className="empty-state">{query.error.message}</p>
+      ) : query.isLoading ? (
+        <p className="empty-state">Loading the schedule…</p>
+      ) : flows.length === 0 ? (
+        <p className="empty-state">No payments remain on this bond.</p>
+      ) : (
+        <div className="cashflow-grid">
+          <CashflowChart flows={flows} currency={bond.currency} />
+          <div className="table-wrapper cashflow-table">
+            <table className="stocks-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Coupon</th>
+                  <th>Principal</th>
+                  <th>Total</th>
+                  <th>Cumulative</th>
+                </tr>
+              </thead>
+              <tbody>
+                {flows.map((flow, index) => (
+                  <tr key={flow.date}>
+                    <td>{bondDateFormatter.format(new Date(flow.date))}</td>
+                    <td>{formatMoney(flow.coupon, bond.currency)}</td>
+                    <td>{flow.principal ? formatMoney(flow.principal, bond.currency) : '—'}</td>
+                    <td>{formatMoney(flow.total, bond.currency)}</td>
+                    <td>{formatMoney(cumulative[index], bond.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
+
+function BondScreener() {
+  const queryClient = useQueryClient()
+  const search = aboutRoute.useSearch()
+  const navigate = aboutRoute.useNavigate()
+  const filters = useMemo(() => pickBondFilters(search), [search])
+  const sorting = useMemo<SortingState>(
+    () => (search.sort ? [{ id: search.sort, desc: search.order === 'desc' }] : []),
+    [search.sort, search.order],
+  )
+  const pagination = useMemo<PaginationState>(
+    () => ({ pageIndex: search.page - 1, pageSize: search.pageSize }),
+    [search.page, search.pageSize],
+  )
+  const view: BondsView = {
+    sort: search.sort,
+    order: search.order,
+    page: search.page,
+    pageSize: search.pageSize,
+  }
+  const rangeErrors = useMemo(() => bondRangeErrors(filters), [filters])
+
+  const query = useQuery({
+    queryKey: ['bonds', filters, view],
+    queryFn: ({ signal }) => fetchBonds(filters, view, signal),
+    placeholderData: keepPreviousData,
+    enabled: rangeErrors.length === 0,
+  })
+
+  const data = useMemo(() => query.data?.data ?? [], [query.data])
+  const total = query.data?.meta.total ?? 0
+  const pageCount = query.data?.meta.pageCount ?? 1
+  const sectors = query.data?.meta.sectors ?? []
+  const bounds = query.data?.meta.bounds
+
+  const updateFilters = (next: Partial<BondFilters>) => {
+    navigate({ search: (prev) => ({ ...prev, ...next, page: 1 }), replace: true })
+  }
+
+  const toggleValue = <Key extends 'rating' | 'currency' | 'sector'>(
+    key: Key,
+    value: BondFilters[Key][number],
+  ) => {
+    const current = filters[key] as string[]
+    updateFilters({
+      [key]: current.includes(value)
+        ? current.filter((item) => item !== value)
+        : [...current, value],
+    })
+  }
+
+  const resetFilters = () => {
+    navigate({ search: (prev) => ({ ...prev, ...defaultBondFilters, page: 1 }) })
+  }
+
+  const columns = useMemo<ColumnDef<Bond>[]>(
+    () => [
+      {
+        accessorKey: 'name',
+        header: 'Bond',
+        cell: ({ row }) => (
+          <div className="bond-name-cell">
+            <Link
+              to="/bonds/$bondId"
+              params={{ bondId: row.original.id }}
+              preload="intent"
+              onClick={(event) => event.stopPropagation()}
+            >
+              {row.original.name}
+            </Link>
+            <span className="helper">{row.original.issuer}</span>
+          </div>
+        ),
+      },
+      { accessorKey: 'rating', header: 'Rating' },
+      {
+        accessorKey: 'coupon',
+        header: 'Coupon',
+        cell: ({ getValue }) => `${percentFormatter.format(getValue<number>())}%`,
+      },
+      {
+        accessorKey: 'maturity',
+        header: 'Maturity',
+        cell: ({ getValue }) => bondDateFormatter.format(new Date(getValue<string>())),
+      },
+      {
+        accessorKey: 'yieldToMaturity',
+        header: 'YTM',
+        cell: ({ getValue }) => `${percentFormatter.format(getValue<number>())}%`,
+      },
+      {
+        accessorKey: 'duration',
+        header: 'Duration',
+        cell: ({ getValue }) => `${getValue<number>().toFixed(1)} yrs`,
+      },
+      {
+        accessorKey: 'price',
+        header: 'Price',
+        cell: ({ getValue }) => getValue<number>().toFixed(2),
+      },
+      { accessorKey: 'currency', header: 'Ccy' },
+      { accessorKey: 'sector', header: 'Sector' },
+      {
+        accessorKey: 'nextCall',
+        header: 'Next call',
+        cell: ({ getValue }) => {
+          const nextCall = getValue<string | null>()
+          return nextCall ? bondDateFormatter.format(new Date(nextCall)) : '—'
+        },
+      },
+      {
+        accessorKey: 'size',
+        header: 'Size',
+        cell: ({ getValue }) => compactFormatter.format(getValue<number>()),
+      },
+    ],
+    [],
+  )
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: { sorting, pagination },
+    getRowId: (row) => row.id,
+    onSortingChange: (updater) => {
+      const [next] = functionalUpdate(updater, sorting)
+      navigate({
+        search: (prev) => ({
+          ...prev,
+          sort: next?.id as BondsSearch['sort'],
+          order: next?.desc ? 'desc' : 'asc',
+          page: 1,
+        }),
+      })
+    },
+    onPaginationChange: (updater) => {
+      const next = functionalUpdate(updater, pagination)
+      navigate({
+        search: (prev) => ({
+          ...prev,
+          page: next.pageIndex + 1,
+          pageSize: next.pageSize,
+        }),
+      })
+    },
+    manualSorting: true,
+    manualPagination: true,
+    pageCount: query.data?.meta.pageCount ?? -1,
+    rowCount: total,
+    getCoreRowModel: getCoreRowModel(),
+  })
+
+  const selectBond = (bondId: string) => navigate({ to: '/bonds/$bondId', params: { bondId } })
+
+  const percentEcho = (amount: number) => `${percentFormatter.format(amount)}%`
+
+  return (
+    <section className="stocks-layout bond-screener">
+      <aside className="filters-panel">
+        <div className="filters-header">
+          <div>
+            <p className="eyebrow">Bond screener</p>
+            <h2>Narrow the universe.</h2>
+          </div>
+          <button className="ghost-btn" onClick={resetFilters}>
+            Reset filters
+          </button>
+        </div>
+
+        <fieldset className="filter-group checkbox-group">
+          <legend>Rating</legend>
+          {bondRatings.map((rating) => (
+            <label key={rating} className="watch-option">
+              <input
+                type="checkbox"
+                checked={filters.rating.includes(rating)}
+                onChange={() => toggleValue('rating', rating)}
+              />
+              <span>{rating}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="filter-group checkbox-group">
+          <legend>Currency</legend>
+          {bondCurrencies.map((currency) => (
+            <label key={currency} className="watch-option">
+              <input
+                type="checkbox"
+                checked={filters.currency.includes(currency)}
+                onChange={() => toggleValue('currency', currency)}
+              />
+              <span>{currency}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="filter-group checkbox-group">
+          <legend>Sector</legend>
+          {sectors.map((sector) => (
+            <label key={sector} className="watch-option">
+              <input
+                type="checkbox"
+                checked={filters.sector.includes(sector)}
+                onChange={() => toggleValue('sector', sector)}
+              />
+              <span>{sector}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <RangeFilter
+          label="Coupon (%)"
+          min={filters.minCoupon}
+          max={filters.maxCoupon}
+          bounds={bounds?.coupon}
+          format={(amount) => amount.toFixed(2)}
+          echoFormat={percentEcho}
+          hint="Annual coupon rate."
+          error={rangeError('coupon', filters.minCoupon, filters.maxCoupon)}
+          onChange={(minCoupon, maxCoupon) => updateFilters({ minCoupon, maxCoupon })}
+        />
+
+        <RangeFilter
+          label="Maturity (year)"
+          min={filters.minMaturity}
+          max={filters.maxMaturity}
+          bounds={bounds?.maturity}
+          format={(amount) => String(Math.round(amount))}
+          echoFormat={(amount) => String(amount)}
+          hint="Window of final maturity years."
+          error={rangeError('maturity year', filters.minMaturity, filters.maxMaturity)}
+          onChange={(minMaturity, maxMaturity) => updateFilters({ minMaturity, maxMaturity })}
+        />
+
+        <RangeFilter
+          label="Yield to maturity (%)"
+          min={filters.minYield}
+          max={filters.maxYield}
+          bounds={bounds?.yieldToMaturity}
+          format={(amount) => amount.toFixed(2)}
+          echoFormat={percentEcho}
+          hint="Drag the handles or type a yield."
+          error={rangeError('yield', filters.minYield, filters.maxYield)}
+          onChange={(minYield, maxYield) => updateFilters({ minYield, maxYield })}
+        />
+
+        <RangeFilter
+          label="Duration (years)"
+          min={filters.minDuration}
+          max={filters.maxDuration}
+          bounds={bounds?.duration}
+          format={(amount) => amount.toFixed(1)}
+          echoFormat={(amount) => `${amount} yrs`}
+          hint="Modified duration."
+          error={rangeError('duration', filters.minDuration, filters.maxDuration)}
+          onChange={(minDuration, maxDuration) => updateFilters({ minDuration, maxDuration })}
+        />
+
+        <div className="filter-group">
+          <label htmlFor="callable">Call feature</label>
+          <select
+            id="callable"
+            value={filters.callable}
+            onChange={(event) =>
+              updateFilters({ callable: event.target.value as BondFilters['callable'] })
+            }
+          >
+            <option value="any">Any</option>
+            <option value="callable">Callable</option>
+            <option value="non-callable">Non-callable</option>
+          </select>
+        </div>
+
+        <div className="filters-summary">
+          <div>
+            <p className="summary-label">Matches</p>
+            <p className="summary-value">
+              {query.isLoading ? 'Loading…' : numberFormatter.format(total)}
+            </p>
+          </div>
+        </div>
+      </aside>
+
+      <div className="table-panel">
+        <div className="table-card">
+          <div className="table-toolbar">
+            <div>
+              <p className="eyebrow">Bond universe</p>
+              <h2>All bonds</h2>
+              <p className="lead">
+                {query.isError
+                  ? 'Unable to load bonds.'
+                  : 'Select a row to open its dossier.'}
+              </p>
+            </div>
+          </div>
+
+          <div className="table-wrapper">
+            <table className="stocks-table bond-table">
+              <thead>
+                {table.getHeaderGroups().map((headerGroup) => (
+                  <tr key={headerGroup.id}>
+                    {headerGroup.headers.map((header) => (
+                      <th key={header.id}>
+                        <button
+                          className="sort-btn"
+                          onClick={header.column.getToggleSortingHandler()}
+                        >
+                          {flexRender(header.column.columnDef.header, header.getContext())}
+                          {{
+                            asc: ' ↑',
+                            desc: ' ↓',
+                          }[header.column.getIsSorted() as string] ?? ''}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                ))}
+              </thead>
+              <tbody>
+                {rangeErrors.length ? (
+                  <tr>
+                    <td colSpan={columns.length} className="empty-state">
+                      {rangeErrors[0]}
+                    </td>
+                  </tr>
+                ) : query.isLoading ? (
+                  <tr>
+                    <td colSpan={columns.length} className="empty-state">
+                      Loading bonds…
+                    </td>
+                  </tr>
+                ) : data.length === 0 ? (
+                  <tr>
+                    <td colSpan={columns.length} className="empty-state">
+                      No bonds match these filters.
+                    </td>
+                  </tr>
+                ) : (
+                  table.getRowModel().rows.map((row) => (
+                    <tr
+                      key={row.id}
+                      className="clickable-row"
+                      onPointerEnter={() => queryClient.prefetchQuery(bondDetailQuery(row.id))}
+                      onClick={() => selectBond(row.id)}
+                    >
+                      {row.getVisibleCells().map((cell) => (
+                        <td key={cell.id}>
+                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </td>
+                      ))}
+                    </tr>
+                  ))
                 )}
-              </div>
-              <div className="form-group">
-                <label htmlFor="assetClass">Asset class</label>
-                <select
-                  id="assetClass"
-                  {...register('assetClass')}
-                  className={errors.assetClass && !isSubmitting ? 'error' : ''}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="table-footer">
+            <div className="pagination">
+              <button
+                className="ghost-btn"
+                onClick={() => table.previousPage()}
+                disabled={!table.getCanPreviousPage()}
+              >
+                Previous
+              </button>
+              <span>
+                Page {table.getState().pagination.pageIndex + 1} of {pageCount}
+              </span>
+              <button
+                className="ghost-btn"
+                onClick={() => table.nextPage()}
+                disabled={!table.getCanNextPage()}
+              >
+                Next
+              </button>
+            </div>
+            <div className="page-size">
+              <span>Rows</span>
+              <select
+                value={table.getState().pagination.pageSize}
+                onChange={(event) => table.setPageSize(Number(event.target.value))}
+              >
+                {pageSizeOptions.map((size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+const CURVE_WIDTH = 720
+const CURVE_HEIGHT = 360
+const curvePadding = { top: 16, right: 56, bottom: 36, left: 16 }
+
+const curveColors = ['#a96e3e', '#216352', '#3b5b92', '#9c3a2b', '#6b5b95']
+
+type CurveBond = Bond & { years: number; spread: number | null }
+
+type CurveGroup = {
+  key: string
+  color: string
+  bonds: CurveBond[]
+  curve: NelsonSiegel | null
+}
+
+const yearsToMaturity = (maturity: string, settlement: string) =>
+  yearFraction(settlement, maturity, 'ACT/365')
+
+// Each group gets its own fit, and spreads are quoted against the curve of
+// the group the bond sits in: positive means the bond yields more than its
+// peers at that maturity (cheap), negative that it yields less (rich).
+const buildCurveGroups = (bonds: Bond[], split: (typeof curveSplits)[number]) => {
+  const settlement = new Date().toISOString().slice(0, 10)
+  const keys: string[] = split === 'currency' ? bondCurrencies : bondRatings
+
+  return keys
+    .map((key, index): CurveGroup => {
+      const members = bonds
+        .filter((bond) => bond[split] === key)
+        .map((bond) => ({ ...bond, years: yearsToMaturity(bond.maturity, settlement) }))
+        .filter((bond) => bond.years > 0)
+      const curve = fitNelsonSiegel(
+        members.map((bond) => ({ maturity: bond.years, yield: bond.yieldToMaturity })),
+      )
+
+      return {
+        key,
+        color: curveColors[index % curveColors.length],
+        curve,
+        bonds: members.map((bond) => ({
+          ...bond,
+          spread: curve
+            ? (bond.yieldToMaturity - nelsonSiegelYield(curve, bond.years)) * 100
+            : null,
+        })),
+      }
+    })
+    .filter((group) => group.bonds.length > 0)
+}
+
+const formatSpread = (spread: number) =>
+  `${spread > 0 ? '+' : ''}${Math.round(spread)} bp`
+
+function YieldCurveChart({
+  groups,
+  highlightId,
+  onHighlight,
+  onSelect,
+}: {
+  groups: CurveGroup[]
+  highlightId: string | null
+  onHighlight: (bondId: string | null) => void
+  onSelect: (bondId: string) => void
+}) {
+  const points = groups.flatMap((group) => group.bonds)
+  const maxYears = Math.ceil(Math.max(1, ...points.map((bond) => bond.years)) + 1)
+  const yields = points.map((bond) => bond.yieldToMaturity)
+  const low = Math.floor(Math.min(...yields) - 0.5)
+  const high = Math.ceil(Math.max(...yields) + 0.5)
+
+  const innerWidth = CURVE_WIDTH - curvePadding.left - curvePadding.right
+  const innerHeight = CURVE_HEIGHT - curvePadding.top - curvePadding.bottom
+  const x = (years: number) => curvePadding.left + (years / maxYears) * innerWidth
+  const y = (value: number) => curvePadding.top + ((high - value) / (high - low)) * innerHeight
+
+  const yearTicks = Array.from({ length: 6 }, (_, index) => Math.round((maxYears * index) / 5))
+  const yieldTicks = Array.from({ length: high - low + 1 }, (_, index) => low + index)
+  const samples = Array.from({ length: 60 }, (_, index) => 0.25 + ((maxYears - 0.25) * index) / 59)
+  const highlighted = points.find((bond) => bond.id === highlightId)
+
+  return (
+    <div className="price-chart">
+      <svg
+        viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`}
+        role="img"
+        aria-label="Yield to maturity against years to maturity"
+      >
+        {yieldTicks.map((value) => (
+          <g key={value} className="chart-grid">
+            <line
+              x1={curvePadding.left}
+              x2={CURVE_WIDTH - curvePadding.right}
+              y1={y(value)}
+              y2={y(value)}
+            />
+            <text x={CURVE_WIDTH - curvePadding.right + 8} y={y(value) + 4}>
+              {value}%
+            </text>
+          </g>
+        ))}
+        {yearTicks.map((years) => (
+          <text
+            key={years}
+            className="chart-axis"
+            x={x(years)}
+            y={CURVE_HEIGHT - 12}
+            textAnchor="middle"
+          >
+            {years}y
+          </text>
+        ))}
+        {groups.map(
+          (group) =>
+            group.curve && (
+              <path
+                key={group.key}
+                className="chart-line curve-fit"
+                style={{ stroke: group.color }}
+                d={samples
+                  .map((years, index) => {
+                    const value = Math.min(
+                      high,
+                      Math.max(low, nelsonSiegelYield(group.curve!, years)),
+                    )
+                    return `${index === 0 ? 'M' : 'L'}${x(years)},${y(value)}`
+                  })
+                  .join(' ')}
+              />
+            ),
+        )}
+        {groups.map((group) =>
+          group.bonds.map((bond) => (
+            <circle
+              key={bond.id}
+              className={bond.id === highlightId ? 'curve-point active' : 'curve-point'}
+              cx={x(bond.years)}
+              cy={y(bond.yieldToMaturity)}
+              r={bond.id === highlightId ? 7 : 5}
+              style={{ fill: group.color }}
+              tabIndex={0}
+              aria-label={`${bond.name}, ${percentFormatter.format(bond.yieldToMaturity)}%`}
+              onPointerEnter={() => onHighlight(bond.id)}
+              onPointerLeave={() => onHighlight(null)}
+              onFocus={() => onHighlight(bond.id)}
+              onBlur={() => onHighlight(null)}
+              onClick={() => onSelect(bond.id)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') onSelect(bond.id)
+              }}
+            />
+          )),
+        )}
+      </svg>
+      {highlighted && (
+        <div
+          className="chart-tooltip"
+          style={{
+            left: `${(x(highlighted.years) / CURVE_WIDTH) * 100}%`,
+            top: `${(y(highlighted.yieldToMaturity) / CURVE_HEIGHT) * 100}%`,
+          }}
+        >
+          <p className="panel-label">{highlighted.name}</p>
+          <dl>
+            <dt>Maturity</dt>
+            <dd>
+              {bondDateFormatter.format(new Date(highlighted.maturity))} (
+              {highlighted.years.toFixed(1)}y)
+            </dd>
+            <dt>YTM</dt>
+            <dd>{percentFormatter.format(highlighted.yieldToMaturity)}%</dd>
+            <dt>Rating</dt>
+            <dd>
+              {highlighted.rating} · {highlighted.currency}
+            </dd>
+            <dt>Spread to fit</dt>
+            <dd>{highlighted.spread === null ? '—' : formatSpread(highlighted.spread)}</dd>
+          </dl>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function YieldCurvePage() {
+  const search = yieldCurveRoute.useSearch()
+  const navigate = yieldCurveRoute.useNavigate()
+  const [highlightId, setHighlightId] = useState<string | null>(null)
+
+  const query = useQuery({
+    queryKey: ['bonds', defaultBondFilters, curveView],
+    queryFn: ({ signal }) => fetchBonds(defaultBondFilters, curveView, signal),
+  })
+
+  const groups = useMemo(
+    () => buildCurveGroups(query.data?.data ?? [], search.split),
+    [query.data, search.split],
+  )
+  const ranked = groups
+    .flatMap((group) => group.bonds.map((bond) => ({ ...bond, color: group.color })))
+    .filter((bond) => bond.spread !== null)
+    .sort((a, b) => b.spread! - a.spread!)
+  const unfitted = groups
+    .filter((group) => !group.curve)
+    .flatMap((group) => group.bonds.map((bond) => ({ ...bond, color: group.color })))
+    .sort((a, b) => a.years - b.years)
+
+  const openBond = (bondId: string) => navigate({ to: '/bonds/$bondId', params: { bondId } })
+
+  return (
+    <section className="stock-detail">
+      <div className="stock-detail-header">
+        <div>
+          <Link to="/about" className="back-link">
+            ← Bond dossier
+          </Link>
+          <p className="eyebrow">Yield curve</p>
+          <h1>Where each bond sits on its curve.</h1>
+        </div>
+        <div className="compare-chips">
+          {groups.map((group) => (
+            <span key={group.key} className="pill" style={{ color: group.color }}>
+              {group.key} · {group.bonds.length}
+              {group.curve ? '' : ' · insufficient data'}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="chart-card">
+        <div className="chart-toolbar">
+          <div className="segmented">
+            {curveSplits.map((option) => (
+              <button
+                key={option}
+                className={option === search.split ? 'active' : ''}
+                onClick={() => navigate({ search: { split: option } })}
+              >
+                By {option}
+              </button>
+            ))}
+          </div>
+          <span className="helper">
+            Nelson-Siegel fit per group · groups under {NELSON_SIEGEL_MIN_POINTS} bonds are not
+            fitted
+          </span>
+        </div>
+        {query.isLoading ? (
+          <p className="empty-state">Loading the bond universe…</p>
+        ) : query.isError ? (
+          <p className="empty-state">Unable to load bonds.</p>
+        ) : (
+          <YieldCurveChart
+            groups={groups}
+            highlightId={highlightId}
+            onHighlight={setHighlightId}
+            onSelect={openBond}
+          />
+        )}
+      </div>
+
+      <div className="table-wrapper">
+        <table className="stocks-table curve-table">
+          <thead>
+            <tr>
+              <th>Bond</th>
+              <th>{search.split === 'currency' ? 'Currency' : 'Rating'}</th>
+              <th>Years</th>
+              <th>YTM</th>
+              <th>Fitted</th>
+              <th>Spread</th>
+              <th>Signal</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.length === 0 && unfitted.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="empty-state">
+                  {query.isLoading ? 'Fitting curves…' : 'No bonds to plot.'}
+                </td>
+              </tr>
+            ) : (
+              [...ranked, ...unfitted].map((bond) => (
+                <tr
+                  key={bond.id}
+                  className={bond.id === highlightId ? 'clickable-row active-row' : 'clickable-row'}
+                  onPointerEnter={() => setHighlightId(bond.id)}
+                  onPointerLeave={() => setHighlightId(null)}
+                  onClick={() => openBond(bond.id)}
                 >
-                  <option value="">Select asset class</option>
-                  <option value="equities">Equities</option>
-                  <option value="fixed-income">Fixed income</option>
-                  <option value="alternatives">Alternatives</option>
-                  <option value="multi-asset">Multi-asset</option>
-                </select>
-                {errors.assetClass && !isSubmitting && (
-                  <p className="error-text">{errors.assetClass.message}</p>
-                )}
+                  <td>
+                    <div className="bond-name-cell">
+                      <span>{bond.name}</span>
+                      <span className="helper">{bond.issuer}</span>
+                    </div>
+                  </td>
+                  <td>
+                    <span className="pill" style={{ color: bond.color }}>
+                      {bond[search.split]}
+                    </span>
+                  </td>
+                  <td>{bond.years.toFixed(1)}</td>
+                  <td>{percentFormatter.format(bond.yieldToMaturity)}%</td>
+                  {bond.spread === null ? (
+                    <>
+                      <td>—</td>
+                      <td>—</td>
+                      <td className="helper">Insufficient data</td>
+                    </>
+                  ) : (
+                    <>
+                      <td>
+                        {percentFormatter.format(bond.yieldToMaturity - bond.spread / 100)}%
+                      </td>
+                      <td className={bond.spread >= 0 ? 'trend up' : 'trend down'}>
+                        {formatSpread(bond.spread)}
+                      </td>
+                      <td>
+                        {Math.abs(bond.spread) < 5
+                          ? 'On curve'
+                          : bond.spread > 0
+                            ? 'Cheap'
+                            : 'Rich'}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
+
+type TermSheetStatus = 'submitted' | 'in-review' | 'issued'
+
+type TermSheetRequest = {
+  id: string
+  bondId: string
+  bondName: string
+  notional: number
+  currency: Bond['currency']
+  settlementDate: string
+  notes: string
+  status: TermSheetStatus
+  history: { status: TermSheetStatus; at: string }[]
+  createdAt: string
+  issuedAt: string | null
+}
+
+type TermSheetRequestInput = Pick<
+  TermSheetRequest,
+  'notional' | 'currency' | 'settlementDate' | 'notes'
+>
+
+const TERM_SHEET_POLL_INTERVAL = 5000
+
+const fetchTermSheetRequests = async () => {
+  const response = await fetch('/api/term-sheet-requests')
+
+  if (!response.ok) {
+    throw new Error('Unable to load term sheet requests')
+  }
+
+  return (await response.json()) as { data: TermSheetRequest[]; meta: { total: number } }
+}
+
+const createTermSheetRequest = async ({
+  bondId,
+  ...input
+}: TermSheetRequestInput & { bondId: string }) => {
+  const response = await fetch(`/api/bonds/${bondId}/term-sheet-requests`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  })
+
+  if (!response.ok) {
+    throw new Error('Unable to submit the term sheet request')
+  }
+
+  return (await response.json()) as { data: TermSheetRequest }
+}
+
+const termSheetSteps: TermSheetStatus[] = ['submitted', 'in-review', 'issued']
+
+const termSheetStatusLabels: Record<TermSheetStatus, string> = {
+  submitted: 'Submitted',
+  'in-review': 'In review',
+  issued: 'Issued',
+}
+
+const termSheetSchema = (bond: Bond) =>
+  z.object({
+    notional: positiveAmount('Notional'),
+    currency: z.enum(['USD', 'EUR'], 'Choose a currency'),
+    settlementDate: z
+      .string()
+      .min(1, 'Settlement date is required')
+      .refine((value) => value >= new Date().toISOString().slice(0, 10), {
+        message: 'Settlement date cannot be in the past',
+      })
+      .refine((value) => value < bond.maturity, {
+        message: 'Settlement must fall before maturity',
+      }),
+    notes: z.string().max(500, 'Notes must be 500 characters or fewer'),
+  })
+
+type TermSheetFormValues = z.infer<ReturnType<typeof termSheetSchema>>
+
+// Two business days out, the usual settlement for secondary bond trades.
+const defaultSettlementDate = () => {
+  const date = new Date()
+  let businessDays = 0
+  while (businessDays < 2) {
+    date.setDate(date.getDate() + 1)
+    if (date.getDay() !== 0 && date.getDay() !== 6) businessDays += 1
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+// A self-contained, print-ready page: opening it and printing to PDF gives
+// the same A4 layout the desk would send.
+const renderTermSheet = (bond: Bond, request: TermSheetRequest) => {
+  const convention = marketConvention(bond.currency)
+  const formatDate = (value: string) => bondDateFormatter.format(new Date(value))
+  const rows: [string, string][] = [
+    ['Issuer', bond.issuer],
+    ['Security', bond.name],
+    ['Sector', bond.sector],
+    ['Rating', bond.rating],
+    ['Currency', bond.currency],
+    [
+      'Coupon',
+      `${percentFormatter.format(bond.coupon)}% fixed, ${convention.frequency === 2 ? 'semiannual' : 'annual'}, ${convention.dayCount}`,
+    ],
+    ['Maturity', formatDate(bond.maturity)],
+    ['Call', bond.nextCall ? `Callable at par from ${formatDate(bond.nextCall)}` : 'Non-callable'],
+    ['Issue size', formatMoney(bond.size, bond.currency)],
+    ['Indicative price', `${bond.price.toFixed(2)} (clean, % of par)`],
+    ['Yield to maturity', `${percentFormatter.format(bond.yieldToMaturity)}%`],
+    ['Modified duration', `${bond.duration.toFixed(1)} years`],
+    ['Notional', formatMoney(request.notional, request.currency)],
+    ['Settlement', formatDate(request.settlementDate)],
+  ]
+  if (request.notes) rows.push(['Client notes', request.notes])
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Term sheet ${escapeXml(request.id)} · ${escapeXml(bond.name)}</title>
+<style>
+  @page { size: A4; margin: 20mm; }
+  body { margin: 0; background: #e9e4dc; font: 11pt/1.5 Georgia, 'Times New Roman', serif; color: #1f1a14; }
+  .page { box-sizing: border-box; width: 210mm; min-height: 297mm; margin: 12mm auto; padding: 20mm; background: #fff; box-shadow: 0 4px 24px rgba(0, 0, 0, 0.12); }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #1f1a14; padding-bottom: 8mm; margin-bottom: 8mm; }
+  h1 { margin: 0; font-size: 20pt; }
+  .meta { text-align: right; font-size: 9pt; color: #6b5f52; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 2.5mm 0; border-bottom: 1px solid #ddd3c6; }
+  th { width: 38%; font-weight: normal; color: #6b5f52; }
+  footer { margin-top: 12mm; font-size: 8pt; color: #6b5f52; }
+  @media print { body { background: none; } .page { margin: 0; box-shadow: none; width: auto; min-height: auto; padding: 0; } }
+</style>
+</head>
+<body>
+<div class="page">
+<header>
+  <div>
+    <p class="meta" style="text-align: left">Indicative term sheet</p>
+    <h1>${escapeXml(bond.name)}</h1>
+  </div>
+  <div class="meta">
+    Ref. ${escapeXml(request.id)}<br />
+    Issued ${escapeXml(formatDate(request.issuedAt ?? request.createdAt))}
+  </div>
+</header>
+<table>
+${rows.map(([label, value]) => `  <tr><th>${escapeXml(label)}</th><td>${escapeXml(value)}</td></tr>`).join('\n')}
+</table>
+<footer>
+  Indicative only. Prices and yields reflect the mock exchange at the time of issue and do
+  not constitute an offer to buy or sell the security.
+</footer>
+</div>
+</body>
+</html>
+`
+}
+
+function TermSheetRequestDialog({ bond, onClose }: { bond: Bond; onClose: () => void }) {
+  const queryClient = useQueryClient()
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<TermSheetFormValues>({
+    resolver: zodResolver(termSheetSchema(bond)),
+    defaultValues: {
+      notional: '1,000,000',
+      currency: bond.currency,
+      settlementDate: defaultSettlementDate(),
+      notes: '',
+    },
+  })
+
+  const requestMutation = useMutation({
+    mutationFn: createTermSheetRequest,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['term-sheet-requests'] }),
+  })
+
+  const onSubmit = (values: TermSheetFormValues) => {
+    requestMutation.mutate({
+      bondId: bond.id,
+      notional: parseAmount(values.notional) ?? 0,
+      currency: values.currency,
+      settlementDate: values.settlementDate,
+      notes: values.notes.trim(),
+    })
+  }
+
+  const submitted = requestMutation.data?.data
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div
+        className="dialog-card"
+        role="dialog"
+        aria-label={`Request a term sheet for ${bond.name}`}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="form-header">
+          <div>
+            <p className="panel-label">Term sheet request</p>
+            <h2>{bond.name}</h2>
+            <p className="helper">
+              {bond.issuer} · {bond.rating} · {bond.currency}
+            </p>
+          </div>
+          <button type="button" className="ghost-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        {submitted ? (
+          <div className="order-confirmation">
+            <p className={`order-status ${submitted.status}`}>
+              {termSheetStatusLabels[submitted.status]}
+            </p>
+            <h3>
+              Request {submitted.id} for{' '}
+              {formatMoney(submitted.notional, submitted.currency)} is with the desk.
+            </h3>
+            <p className="lead">
+              Track it under My requests; the term sheet can be downloaded once issued.
+            </p>
+            <div className="form-actions">
+              <button type="button" className="primary-btn" onClick={onClose}>
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form className="services-form" onSubmit={handleSubmit(onSubmit)}>
+            <div className="form-grid">
+              <div className="form-group">
+                <label htmlFor="term-sheet-notional">Notional</label>
+                <input
+                  id="term-sheet-notional"
+                  type="text"
+                  placeholder="1M"
+                  {...register('notional')}
+                  className={errors.notional ? 'error' : ''}
+                />
+                {errors.notional && <p className="error-text">{errors.notional.message}</p>}
               </div>
-              <div className="form-group full-width">
-                <label htmlFor="instrument">Instrument</label>
-                <select
-                  id="instrument"
-                  {...register('instrument')}
-                  disabled={instrumentsQuery.isFetching}
-                  className={errors.instrument && !isSubmitting ? 'error' : ''}
-                >
-                  <option value="">
-                    {instrumentsQuery.isFetching ? 'Loading...' : 'Select instrument'}
-                  </option>
-                  {instruments.map((inst, index) => (
-                    <option key={index} value={inst.name}>
-                      {inst.name} ({inst.ticker})
+              <div className="form-group">
+                <label htmlFor="term-sheet-currency">Currency</label>
+                <select id="term-sheet-currency" {...register('currency')}>
+                  {bondCurrencies.map((currency) => (
+                    <option key={currency} value={currency}>
+                      {currency}
                     </option>
                   ))}
                 </select>
-                {errors.instrument && !isSubmitting && (
-                  <p className="error-text">{errors.instrument.message}</p>
-                )}
               </div>
-              <div className="form-group full-width">
-                <label htmlFor="notes">Notes (optional)</label>
-                <textarea
-                  id="notes"
-                  rows={3}
-                  {...register('notes')}
-                  className={errors.notes && !isSubmitting ? 'error' : ''}
+              <div className="form-group">
+                <label htmlFor="term-sheet-settlement">Desired settlement</label>
+                <input
+                  id="term-sheet-settlement"
+                  type="date"
+                  {...register('settlementDate')}
+                  className={errors.settlementDate ? 'error' : ''}
                 />
-                {errors.notes && !isSubmitting && (
-                  <p className="error-text">{errors.notes.message}</p>
+                {errors.settlementDate && (
+                  <p className="error-text">{errors.settlementDate.message}</p>
                 )}
               </div>
             </div>
+            <div className="form-group">
+              <label htmlFor="term-sheet-notes">Notes</label>
+              <textarea
+                id="term-sheet-notes"
+                rows={3}
+                placeholder="Allocation preferences, desk contact, anything else we should know."
+                {...register('notes')}
+                className={errors.notes ? 'error' : ''}
+              />
+              {errors.notes && <p className="error-text">{errors.notes.message}</p>}
+            </div>
+            {requestMutation.isError && (
+              <p className="error-text">{requestMutation.error.message}</p>
+            )}
             <div className="form-actions">
-              <button 
-                type="submit" 
-                className="primary-btn" 
-                disabled={isSubmitting || instrumentsQuery.isFetching}
-              >
-                {isSubmitting ? 'Submitting...' : 'Submit mandate'}
-              </button>
               <button
-                type="button"
-                className="ghost-btn"
-                onClick={() => briefQuery.data && reset(briefQuery.data.data as unknown as ServicesFormValues)}
+                type="submit"
+                className="primary-btn"
+                disabled={requestMutation.isPending}
               >
-                Reset
+                {requestMutation.isPending ? 'Submitting…' : 'Submit request'}
               </button>
             </div>
           </form>
         )}
       </div>
-    </section>
+    </div>
   )
 }
 
-const rootRoute = createRootRoute({
-  component: RootLayout,
-})
-
-const indexRoute = createRoute({
-  getParentRoute: () => rootRoute,
-  path: '/',
-  component: StocksPage,
-})
-
-const aboutRoute = createRoute({
-  getParentRoute: () => rootRoute,
-  path: '/about',
-  component: AboutPage,
-})
-
-const servicesRoute = createRoute({
-  getParentRoute: () => rootRoute,
-  path: '/services',
-  component: ServicesPage,
-})
-
-const journalRoute = createRoute({
-  getParentRoute: () => rootRoute,
-  path: '/journal',
-  component: JournalPage,
-})
-
-const contactRoute = createRoute({
-  getParentRoute: () => rootRoute,
-  path: '/contact',
-  component: ContactPage,
-})
-
-const routeTree = rootRoute.addChildren([
-  indexRoute,
-  aboutRoute,
-  servicesRoute,
-  journalRoute,
-  contactRoute,
-])
+function TermSheetRequests({ bondId }: { bondId?: string }) {
+  const queryClient = useQueryClient()
+
+  // Polls only while the desk still has something open.
+  const requestsQuery = useQuery({
+    queryKey: ['term-sheet-requests'],
+    queryFn: fetchTermSheetRequests,
+    refetchInterval: (query) =>
+      query.state.data?.data.some((request) => request.status !== 'issued')
+        ? TERM_SHEET_POLL_INTERVAL
+        : false,
+  })
 
-export const router = createRouter({
-  routeTree,
-})
+  const downloadMutation = useMutation({
+    mutationFn: async (request: TermSheetRequest) => {
+      const { data: bond } = await queryClient.fetchQuery(bondDetailQuery(request.bondId))
+      downloadBlob(
+        new Blob([renderTermSheet(bond, request)], { type: 'text/html;charset=utf-8' }),
+        `term-sheet-${request.id}.html`,
+      )
+    },
+  })
 
-declare module '@tanstack/react-router' {
-  interface Register {
-    router: typeof router
-  }
-}
+  const requests = requestsQuery.data?.data ?? []
 
-function RootLayout() {
   return (
-    <div className="app-shell">
-      <header className="site-header">
-        <div className="brand">
-          <span className="brand-mark">V</span>
-          <div>
-            <p className="brand-title">Vibes Studio</p>
-            <p className="brand-tagline">Design-forward digital atmospheres</p>
-          </div>
-        </div>
-        <nav className="nav">
-          <Link to="/" className="nav-link" activeProps={{ className: 'nav-link active' }}>
-            Home
-          </Link>
-          <Link
-            to="/about"
-            className="nav-link"
-            activeProps={{ className: 'nav-link active' }}
-          >
-            About
-          </Link>
-          <Link
-            to="/services"
-            className="nav-link"
-            activeProps={{ className: 'nav-link active' }}
-          >
-            Services
-          </Link>
-          <Link
-            to="/journal"
-            className="nav-link"
-            activeProps={{ className: 'nav-link active' }}
-          >
-            Journal
-          </Link>
-          <Link
-            to="/contact"
-            className="nav-link"
-            activeProps={{ className: 'nav-link active' }}
-          >
-            Contact
-          </Link>
-        </nav>
-      </header>
-      <main className="page">
-        <Outlet />
-      </main>
-      <footer className="site-footer">
-        <p>Based in the cloud, grounded in craft.</p>
-        <div className="footer-meta">
-          <span>New York</span>
-          <span>Lisbon</span>
-          <span>Kyoto</span>
+    <section className="bond-panel">
+      <div className="table-toolbar">
+        <div>
+          <p className="eyebrow">My requests</p>
+          <h2>Term sheets</h2>
+          <p className="lead">
+            Requests move from submitted to in review to issued as the desk works them.
+          </p>
         </div>
-      </footer>
-    </div>
+      </div>
+      {downloadMutation.isError && (
+        <p className="error-text">Unable to build that term sheet. Try again shortly.</p>
+      )}
+      <div className="table-wrapper">
+        <table className="stocks-table term-sheet-table">
+          <thead>
+            <tr>
+              <th>Ref.</th>
+              <th>Bond</th>
+              <th>Notional</th>
+              <th>Settlement</th>
+              <th>Status</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {requestsQuery.isLoading ? (
+              <tr>
+                <td colSpan={6} className="empty-state">
+                  Loading requests…
+                </td>
+              </tr>
+            ) : requestsQuery.isError ? (
+              <tr>
+                <td colSpan={6} className="empty-state">
+                  Unable to load requests.
+                </td>
+              </tr>
+            ) : requests.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="empty-state">
+                  No requests yet. Open a bond and use Request term sheet.
+                </td>
+              </tr>
+            ) : (
+              requests.map((request) => {
+                const reached = termSheetSteps.indexOf(request.status)
+                return (
+                  <tr
+                    key={request.id}
+                    className={request.bondId === bondId ? 'active-row' : undefined}
+                  >
+                    <td>{request.id}</td>
+                    <td>
+                      <Link
+                        to="/bonds/$bondId"
+                        params={{ bondId: request.bondId }}
+                        preload="intent"
+                      >
+                        {request.bondName}
+                      </Link>
+                    </td>
+                    <td>{formatMoney(request.notional, request.currency)}</td>
+                    <td>{bondDateFormatter.format(new Date(request.settlementDate))}</td>
+                    <td>
+                      <ol className="status-steps" aria-label={termSheetStatusLabels[request.status]}>
+                        {termSheetSteps.map((step, index) => {
+                          const entry = request.history.find((item) => item.status === step)
+                          return (
+                            <li
+                              key={step}
+                              className={index <= reached ? 'done' : undefined}
+                              title={entry ? formatClockTime(entry.at) : undefined}
+                            >
+                              {termSheetStatusLabels[step]}
+                            </li>
+                          )
+                        })}
+                      </ol>
+                    </td>
+                    <td>
+                      <button
+                        className="ghost-btn"
+                        disabled={request.status !== 'issued' || downloadMutation.isPending}
+                        onClick={() => downloadMutation.mutate(request)}
+                      >
+                        Download
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
   )
 }
 
-function AboutPage() {
-  const [selectedBondId, setSelectedBondId] = useState<string | undefined>(undefined)
+function BondDossier({ bondId: selectedBondId }: { bondId?: string }) {
+  const [ticketOpen, setTicketOpen] = useState(false)
+  const [termSheetOpen, setTermSheetOpen] = useState(false)
 
   const optionsQuery = useQuery({
     queryKey: ['bond-options'],
@@ -1157,8 +7932,7 @@ function AboutPage() {
   })
 
   const detailQuery = useQuery({
-    queryKey: ['bond-detail', { id: selectedBondId }],
-    queryFn: () => fetchBondDetail(selectedBondId!),
+    ...bondDetailQuery(selectedBondId ?? ''),
     enabled: Boolean(selectedBondId),
   })
 
@@ -1173,134 +7947,205 @@ function AboutPage() {
   })
 
   return (
-    <section className="page-grid about-bonds">
-      <div className="about-copy">
-        <p className="eyebrow">About</p>
-        <h1>Bond dossier, curated in real time.</h1>
-        <p className="lead">
-          Choose a bond from the mock exchange to load live attributes,
-          pricing, and timing signals. Data is served via MSW and TanStack Query.
-        </p>
-        <div className="bond-select">
-          <label htmlFor="bond-select">Select bond</label>
-          <select
-            id="bond-select"
-            value={selectedBondId}
-            onChange={(event) => setSelectedBondId(event.target.value)}
-            disabled={optionsQuery.isLoading || optionsQuery.isError}
-          >
-            <option value="">
-              {optionsQuery.isLoading
-                ? 'Loading bonds…'
-                : optionsQuery.isError
-                  ? 'Unable to load bonds'
-                  : 'Choose a bond'}
-            </option>
-            {options.map((option) => (
-              <option key={option.id} value={option.id}>
-                {option.name} · {option.issuer}
-              </option>
-            ))}
-          </select>
-          <p className="helper">
-            {optionsQuery.isLoading
-              ? 'Syncing the bond list.'
-              : `${options.length} instruments available.`}
+    <>
+      <section className="page-grid about-bonds">
+        <div className="about-copy">
+          <p className="eyebrow">About</p>
+          <h1>Bond dossier, curated in real time.</h1>
+          <p className="lead">
+            Choose a bond from the mock exchange to load live attributes,
+            pricing, and timing signals. Data is served via MSW and TanStack Query.
           </p>
+          <nav className="bond-select" aria-labelledby="bond-select-label">
+            <p id="bond-select-label" className="bond-select-label">
+              Select bond
+            </p>
+            {optionsQuery.isLoading ? (
+              <p className="empty-state">Loading bonds…</p>
+            ) : optionsQuery.isError ? (
+              <p className="empty-state">Unable to load bonds</p>
+            ) : (
+              // Options are links, so hovering or focusing one runs the bond
+              // route's loader and the dossier is usually cached by the click.
+              <ul className="bond-option-list">
+                {options.map((option) => (
+                  <li key={option.id}>
+                    <Link
+                      to="/bonds/$bondId"
+                      params={{ bondId: option.id }}
+                      preload="intent"
+                      className="bond-option"
+                      activeProps={{ className: 'bond-option active', 'aria-current': 'page' }}
+                    >
+                      <span>{option.name}</span>
+                      <span className="helper">
+                        {option.issuer} · {option.rating}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="helper">
+              {optionsQuery.isLoading
+                ? 'Syncing the bond list.'
+                : `${options.length} instruments available.`}
+            </p>
+          </nav>
+          <Link to="/bonds/curve" className="ghost-btn">
+            View the yield curve
+          </Link>
         </div>
-      </div>
-      <div className="bond-card">
-        {detailQuery.isFetching && selectedBondId ? (
-          <div className="bond-loading">
-            <p className="panel-label">Loading bond</p>
-            <h3>Pulling the latest trade tape.</h3>
-          </div>
-        ) : detailQuery.isError ? (
-          <div className="bond-loading">
-            <p className="panel-label">Unable to load</p>
-            <h3>We could not retrieve that bond.</h3>
-            <p className="lead">Try another selection from the list.</p>
-          </div>
-        ) : bond ? (
-          <>
-            <div className="bond-header">
-              <div>
-                <p className="panel-label">{bond.sector}</p>
-                <h2>{bond.name}</h2>
-                <p className="bond-issuer">{bond.issuer}</p>
-              </div>
-              <div className="bond-rating">
-                <span>{bond.rating}</span>
-                <p>Rating</p>
-              </div>
+        <div className="bond-card">
+          {detailQuery.isFetching && selectedBondId ? (
+            <div className="bond-loading">
+              <p className="panel-label">Loading bond</p>
+              <h3>Pulling the latest trade tape.</h3>
             </div>
-            <div className="bond-metrics">
-              <div>
-                <p className="panel-label">Coupon</p>
-                <p className="metric-value">{percentFormatter.format(bond.coupon)}%</p>
-              </div>
-              <div>
-                <p className="panel-label">Yield to maturity</p>
-                <p className="metric-value">
-                  {percentFormatter.format(bond.yieldToMaturity)}%
-                </p>
-              </div>
-              <div>
-                <p className="panel-label">Duration</p>
-                <p className="metric-value">{bond.duration.toFixed(1)} yrs</p>
-              </div>
-              <div>
-                <p className="panel-label">Price</p>
-                <p className="metric-value">{priceFormatter.format(bond.price)}</p>
-              </div>
+          ) : detailQuery.isError ? (
+            <div className="bond-loading">
+              <p className="panel-label">Unable to load</p>
+              <h3>We could not retrieve that bond.</h3>
+              <p className="lead">Try another selection from the list.</p>
             </div>
-            <div className="bond-divider" />
-            <div className="bond-details">
-              <div>
-                <p className="panel-label">Maturity</p>
-                <p>{new Date(bond.maturity).toLocaleDateString('en-US')}</p>
-              </div>
-              <div>
-                <p className="panel-label">Next call</p>
-                <p>
-                  {bond.nextCall
-                    ? new Date(bond.nextCall).toLocaleDateString('en-US')
-                    : 'Non-callable'}
-                </p>
+          ) : bond ? (
+            <>
+              <div className="bond-header">
+                <div>
+                  <p className="panel-label">{bond.sector}</p>
+                  <h2>{bond.name}</h2>
+                  <p className="bond-issuer">{bond.issuer}</p>
+                </div>
+                <div className="bond-rating">
+                  <span>{bond.rating}</span>
+                  <p>Rating</p>
+                </div>
               </div>
-              <div>
-                <p className="panel-label">Issue size</p>
-                <p>{compactFormatter.format(bond.size)}</p>
+              <div className="bond-metrics">
+                <div>
+                  <p className="panel-label">Coupon</p>
+                  <p className="metric-value">{percentFormatter.format(bond.coupon)}%</p>
+                </div>
+                <div>
+                  <p className="panel-label">Yield to maturity</p>
+                  <p className="metric-value">
+                    {percentFormatter.format(bond.yieldToMaturity)}%
+                  </p>
+                </div>
+                <div>
+                  <p className="panel-label">Duration</p>
+                  <p className="metric-value">{bond.duration.toFixed(1)} yrs</p>
+                </div>
+                <div>
+                  <p className="panel-label">Price</p>
+                  <p className="metric-value">{priceFormatter.format(bond.price)}</p>
+                </div>
               </div>
-              <div>
-                <p className="panel-label">Last traded</p>
-                <p>
-                  {new Date(bond.lastTraded).toLocaleTimeString('en-US', {
-                    hour: '2-digit',
-                    minute: '2-digit',
-                  })}
-                </p>
+              <div className="bond-divider" />
+              <div className="bond-details">
+                <div>
+                  <p className="panel-label">Maturity</p>
+                  <p>{new Date(bond.maturity).toLocaleDateString('en-US')}</p>
+                </div>
+                <div>
+                  <p className="panel-label">Next call</p>
+                  <p>
+                    {bond.nextCall
+                      ? new Date(bond.nextCall).toLocaleDateString('en-US')
+                      : 'Non-callable'}
+                  </p>
+                </div>
+                <div>
+                  <p className="panel-label">Issue size</p>
+                  <p>{compactFormatter.format(bond.size)}</p>
+                </div>
+                <div>
+                  <p className="panel-label">Last traded</p>
+                  <p>
+                    {new Date(bond.lastTraded).toLocaleTimeString('en-US', {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                </div>
               </div>
-            </div>
-            <div className="bond-footer">
-              <div>
-                <p className="panel-label">Selected</p>
-                <p>
-                  {selectedOption?.name ?? bond.name} · {bond.currency}
-                </p>
+              <div className="bond-footer">
+                <div>
+                  <p className="panel-label">Selected</p>
+                  <p>
+                    {selectedOption?.name ?? bond.name} · {bond.currency}
+                  </p>
+                </div>
+                <div className="bond-footer-actions">
+                  <button className="ghost-btn" onClick={() => setTicketOpen(true)}>
+                    Trade
+                  </button>
+                  <button className="primary-btn" onClick={() => setTermSheetOpen(true)}>
+                    Request term sheet
+                  </button>
+                </div>
               </div>
-              <button className="primary-btn">Request term sheet</button>
+            </>
+          ) : (
+            <div className="bond-empty">
+              <p className="panel-label">No bond selected</p>
+              <h3>Select a bond to reveal its profile.</h3>
+              <p className="lead">
+                Each card updates with pricing and risk metrics in real time.
+              </p>
             </div>
-          </>
-        ) : (
-          <div className="bond-empty">
-            <p className="panel-label">No bond selected</p>
-            <h3>Select a bond to reveal its profile.</h3>
-            <p className="lead">
-              Each card updates with pricing and risk metrics in real time.
-            </p>
-          </div>
+          )}
+        </div>
+        {ticketOpen && bond && (
+          <OrderTicket
+            instrument={{
+              assetType: 'bond',
+              symbol: bond.id,
+              name: bond.name,
+              price: bond.price,
+              currency: bond.currency,
+            }}
+            onClose={() => setTicketOpen(false)}
+          />
         )}
+        {termSheetOpen && bond && (
+          <TermSheetRequestDialog bond={bond} onClose={() => setTermSheetOpen(false)} />
+        )}
+      </section>
+      {bond && <BondWhatIf key={`whatif-${bond.id}`} bond={bond} />}
+      {bond && <BondCashflows key={`cashflows-${bond.id}`} bond={bond} />}
+      <TermSheetRequests bondId={bond?.id} />
+    </>
+  )
+}
+
+function AboutPage() {
+  return (
+    <>
+      <BondDossier />
+      <BondScreener />
+    </>
+  )
+}
+
+function BondDossierPage() {
+  const { bondId } = bondDossierRoute.useParams()
+
+  return <BondDossier bondId={bondId} />
+}
+
+function BondNotFound() {
+  const { bondId } = bondDossierRoute.useParams()
+
+  return (
+    <section className="stock-detail">
+      <div className="bond-loading">
+        <p className="panel-label">Bond not found</p>
+        <h3>There is no bond with the id “{bondId}”.</h3>
+        <p className="lead">It may have matured or been removed from the universe.</p>
+        <Link to="/about" className="ghost-btn">
+          Browse all bonds
+        </Link>
       </div>
     </section>
   )